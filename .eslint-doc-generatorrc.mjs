@@ -4,6 +4,14 @@ import prettierRC from './.prettierrc.mjs'
 
 /** @type {import('eslint-doc-generator').GenerateOptions} */
 const config = {
+  // flat configs mirror the legacy ones, no need to list them twice
+  ignoreConfig: [
+    'flat/errors',
+    'flat/recommended',
+    'flat/stage-0',
+    'flat/typescript',
+    'flat/warnings',
+  ],
   postprocess: (content, path) =>
     prettier.format(content, { ...prettierRC, parser: 'markdown' }),
 }
@@ -5,6 +5,7 @@ import {
 } from 'path'
 
 import { isCoreModule } from '../utils/is-core-module'
+import { getFileSettings } from '../utils/overrides'
 import { resolve } from '../utils/resolve'
 import { getContextPackagePath } from './package-path'
 import { PluginSettings, RuleContext } from '../types'
@@ -113,7 +114,7 @@ function isExternalPath(path: string | null | undefined, context: RuleContext) {
     return false
   }
 
-  const { settings } = context
+  const settings = getContextSettings(context)
   const packagePath = getContextPackagePath(context)
 
   if (relative(packagePath, path).startsWith('..')) {
@@ -142,8 +143,20 @@ function isExternalLookingName(name: string) {
   return isModule(name) || isScoped(name)
 }
 
+/**
+ * the settings of the linted file, ESLint only applies its own overrides
+ */
+function getContextSettings(context: RuleContext) {
+  return getFileSettings(
+    context.getPhysicalFilename
+      ? context.getPhysicalFilename()
+      : context.getFilename(),
+    context.settings,
+  )
+}
+
 function typeTest(name: string, context: RuleContext, path?: string | null) {
-  const { settings } = context
+  const settings = getContextSettings(context)
   if (isInternalRegexMatch(name, settings)) {
     return 'internal'
   }
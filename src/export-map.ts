@@ -1,16 +1,36 @@
 import fs from 'fs'
-import { resolve as pathResolve } from 'path'
+import { extname, resolve as pathResolve } from 'path'
 
 import debug from 'debug'
 import doctrine, { Annotation } from 'doctrine'
 import { AST, SourceCode } from 'eslint'
 import { TsConfigJsonResolved, getTsconfig } from 'get-tsconfig'
 
-import { parse } from './utils/parse'
+import { type AmbientModule, findAmbientModule } from './utils/ambient-modules'
+import {
+  getDeclarationParserPath,
+  getParserVersion,
+  parse,
+} from './utils/parse'
 import { visit } from './utils/visit'
-import { relative, resolve } from './utils/resolve'
-import { hasValidExtension, ignore } from './utils/ignore'
-import { hashObject } from './utils/hash'
+import { type ImportKind, relative, resolve } from './utils/resolve'
+import { hasValidExtension, ignore, matchesIgnorePattern } from './utils/ignore'
+import { hashArray, hashObject, hashify } from './utils/hash'
+import { registerInvalidator } from './utils/invalidate'
+import { ModuleCache } from './utils/module-cache'
+import { getFileSettings } from './utils/overrides'
+import { PersistentCache } from './utils/persistent-cache'
+import {
+  type ComponentScript,
+  extractComponentScript,
+  isSingleFileComponent,
+} from './utils/sfc'
+import {
+  findCommonJsExports,
+  isMaybeCommonJsModule,
+} from './utils/commonjs-exports'
+import { extractCssModuleNames, isCssModule } from './utils/css-modules'
+import { isDeclarationFile, resolveExternalTypes } from './utils/external-types'
 import {
   isMaybeUnambiguousModule,
   isUnambiguousModule,
@@ -26,80 +46,319 @@ import type {
 } from './types'
 import { TSESLint, TSESTree } from '@typescript-eslint/utils'
 
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - We're using commonjs
+import pkg from '../package.json'
+
 const log = debug('eslint-plugin-import-x:ExportMap')
 
-const exportCache = new Map<string, ExportMap | null>()
+const exportCache = new ModuleCache(new Map(), { name: 'exportMap' })
+
+/**
+ * module specifiers behind the lazy getters of namespace metadata and
+ * re-exports, kept to serialize them for the persistent cache
+ */
+const remoteSources = new WeakMap<object, string>()
 
 const tsconfigCache = new Map<string, TsConfigJsonResolved | null>()
 
+/**
+ * the export maps of ambient modules by cache key, dropped along with the
+ * ambient modules when their declaration files change
+ */
+const ambientModuleExports = new WeakMap<
+  AmbientModule,
+  Map<string, ExportMap | null>
+>()
+
+registerInvalidator({
+  invalidate(paths) {
+    exportCache.deleteWhere((exportMap, cacheKey) => {
+      if (exportMap instanceof ExportMap) {
+        if (paths.has(exportMap.path)) {
+          return true
+        }
+        // dependents hold the resolved paths of their imports
+        for (const importPath of exportMap.imports.keys()) {
+          if (paths.has(importPath)) {
+            return true
+          }
+        }
+        return false
+      }
+      // ignored modules are only known by their key, which ends with the path
+      for (const p of paths) {
+        if ((cacheKey as string).endsWith(p)) {
+          return true
+        }
+      }
+      return false
+    })
+    for (const p of paths) {
+      if (p.endsWith('.json')) {
+        tsconfigCache.clear()
+        break
+      }
+    }
+  },
+  clear() {
+    exportCache.clear()
+    tsconfigCache.clear()
+  },
+})
+
 export type DocStyleParsers = Record<
   DocStyle,
   (comments: TSESTree.Comment[]) => Annotation | undefined
 >
 
+/**
+ * What an export declares, `type` and `interface` only exist as types
+ */
+export type ExportKind =
+  | 'type'
+  | 'interface'
+  | 'value'
+  | 'function'
+  | 'class'
+  | 'enum'
+  | 'namespace'
+
+export interface ExportKindMetadata {
+  /**
+   * `undefined` for the bindings of other modules exported again, e.g.
+   * `import { foo } from './foo'; export { foo }`, which are not analyzed
+   */
+  kind?: ExportKind
+  /**
+   * exported with `export type` or `export { type name }`, or a binding of
+   * `import type`
+   */
+  isTypeOnly: boolean
+}
+
+/**
+ * @return true if an export can only be used as a type
+ */
+export function isTypeOnlyExport({ kind, isTypeOnly }: ExportKindMetadata) {
+  return isTypeOnly || kind === 'type' || kind === 'interface'
+}
+
 export interface DeclarationMetadata {
   source: Pick<TSESTree.Literal, 'value' | 'loc'>
   importedSpecifiers?: Set<string>
   dynamic?: boolean
   isOnlyImportingTypes?: boolean
+  /**
+   * `export ... from` rather than `import`
+   */
+  reexport?: boolean
+  /**
+   * how the source is resolved, `import` by default
+   */
+  importKind?: ImportKind
+}
+
+export interface SerializedDeclaration
+  extends Omit<DeclarationMetadata, 'importedSpecifiers'> {
+  importedSpecifiers?: string[]
+  exportAll?: boolean
+}
+
+/**
+ * JSON-safe form of an {@link ExportMap}, remote modules are stored as their
+ * specifiers and resolved again when restored
+ */
+export interface SerializedExportMap {
+  parseGoal: ExportMap['parseGoal']
+  doc?: Annotation
+  errors: Array<Pick<ParseError, 'message' | 'lineNumber' | 'column'>>
+  visitorKeys: TSESLint.SourceCode.VisitorKeys | null
+  namespace: Array<
+    [
+      string,
+      {
+        doc?: Annotation
+        namespace?: string
+        kind?: ExportKind
+        isTypeOnly?: boolean
+      },
+    ]
+  >
+  reexports: Array<
+    [string, { local: string; source: string; isTypeOnly?: boolean }]
+  >
+  declarations: SerializedDeclaration[]
 }
 
 export class ExportMap {
-  static for(context: ChildContext) {
+  static for(context: ChildContext): ExportMap | null {
     const { path } = context
 
+    const externalTypes =
+      getFileSettings(path, context.settings)['import-x/external-types'] ===
+      true
+
+    // the declaration files of external modules describe their exports better
+    // than their JavaScript, e.g. CommonJS builds
+    if (externalTypes) {
+      const typesPath = resolveExternalTypes(path)
+      const parserPath =
+        typesPath && getDeclarationParserPath(typesPath, context.settings)
+      if (typesPath && parserPath) {
+        log('using types', typesPath, 'for path', path)
+        return ExportMap.for(
+          childContext(typesPath, { ...context, parserPath }),
+        )
+      }
+    }
+
     const cacheKey = context.cacheKey || hashObject(context).digest('hex')
-    let exportMap = exportCache.get(cacheKey)
+    const { invalidation, maxExportMaps } = ModuleCache.getSettings(
+      context.settings,
+    )
+    // export maps are revalidated against their file below instead of expiring
+    const exportCacheSettings = {
+      lifetime: Infinity,
+      maxEntries: maxExportMaps,
+    }
+
+    let exportMap = exportCache.get<ExportMap | null>(
+      cacheKey,
+      exportCacheSettings,
+    )
 
     // return cached ignore
     if (exportMap === null) {
       return null
     }
 
-    const stats = fs.statSync(path)
-    if (exportMap != null) {
+    // single-shot runs can assume files do not change while linting
+    if (exportMap != null && invalidation === 'trust') {
+      return exportMap
+    }
+
+    let stats: fs.Stats | undefined
+    let content: string | undefined
+    let contentHash: string | undefined
+
+    if (invalidation === 'content-hash') {
+      content = fs.readFileSync(path, { encoding: 'utf8' })
+      contentHash = hashify(content).digest('hex')
+      if (exportMap != null && exportMap.contentHash === contentHash) {
+        return exportMap
+      }
+    } else if (invalidation !== 'trust') {
+      stats = fs.statSync(path)
       // date equality check
-      if (exportMap.mtime.valueOf() - stats.mtime.valueOf() === 0) {
+      if (
+        exportMap != null &&
+        exportMap.mtime.valueOf() - stats.mtime.valueOf() === 0
+      ) {
         return exportMap
       }
-      // future: check content equality?
     }
 
+    // JSON modules, CSS Modules once enabled and the declaration files of
+    // external modules are analyzed whatever the configured extensions
+    const isJsonModule = extname(path) === '.json'
+    const isExternalTypes = externalTypes && isDeclarationFile(path)
+    const cssModules = getFileSettings(path, context.settings)[
+      'import-x/css-modules'
+    ]
+    const isStylesheet =
+      cssModules != null && cssModules !== false && isCssModule(path)
+
     // check valid extensions first
-    if (!hasValidExtension(path, context)) {
-      exportCache.set(cacheKey, null)
+    if (
+      !isJsonModule &&
+      !isStylesheet &&
+      !isExternalTypes &&
+      !hasValidExtension(path, context)
+    ) {
+      exportCache.set(cacheKey, null, exportCacheSettings)
       return null
     }
 
     // check for and cache ignore
-    if (ignore(path, context)) {
+    if (
+      isJsonModule || isStylesheet || isExternalTypes
+        ? matchesIgnorePattern(path, context)
+        : ignore(path, context)
+    ) {
       log('ignored path due to ignore settings:', path)
-      exportCache.set(cacheKey, null)
+      exportCache.set(cacheKey, null, exportCacheSettings)
       return null
     }
 
-    const content = fs.readFileSync(path, { encoding: 'utf8' })
+    content ??= fs.readFileSync(path, { encoding: 'utf8' })
 
-    // check for and cache unambiguous modules
-    if (!isMaybeUnambiguousModule(content)) {
+    // check for and cache unambiguous modules, components always export
+    // themselves
+    if (
+      !isJsonModule &&
+      !isStylesheet &&
+      !isSingleFileComponent(path) &&
+      !isMaybeUnambiguousModule(content) &&
+      !(
+        getFileSettings(path, context.settings)['import-x/commonjs-exports'] &&
+        isMaybeCommonJsModule(content)
+      )
+    ) {
       log('ignored path due to unambiguous regex:', path)
-      exportCache.set(cacheKey, null)
+      exportCache.set(cacheKey, null, exportCacheSettings)
       return null
     }
 
-    log('cache miss', cacheKey, 'for path', path)
-    exportMap = ExportMap.parse(path, content, context)
+    // the class names of CSS Modules are a nested namespace, which can not be
+    // serialized, and they are as quick to scan again anyway
+    const persistentCache =
+      !isStylesheet && PersistentCache.for(context.settings)
+    const persistentKey =
+      persistentCache &&
+      hashArray([
+        pkg.version,
+        getParserVersion(path, context),
+        // the parser object of flat config is not part of the cache key
+        { ...context.languageOptions, parser: undefined },
+        isEsModuleInterop(context),
+        cacheKey,
+        content,
+      ]).digest('hex')
+    const persisted = persistentKey
+      ? persistentCache!.get<SerializedExportMap | null>(persistentKey)
+      : undefined
+
+    if (persisted === undefined) {
+      log('cache miss', cacheKey, 'for path', path)
+      exportMap = isJsonModule
+        ? ExportMap.parseJson(path, content, context)
+        : isStylesheet
+          ? ExportMap.parseCssModule(path, content, context)
+          : ExportMap.parse(path, content, context)
+      if (persistentKey) {
+        persistentCache!.set(persistentKey, exportMap && exportMap.serialize())
+      }
+    } else {
+      log('persistent cache hit', cacheKey, 'for path', path)
+      exportMap = persisted && ExportMap.deserialize(persisted, context)
+    }
 
     // ambiguous modules return null
     if (exportMap == null) {
       log('ignored path due to ambiguous parse:', path)
-      exportCache.set(cacheKey, null)
+      exportCache.set(cacheKey, null, exportCacheSettings)
       return null
     }
 
-    exportMap.mtime = stats.mtime
+    if (stats) {
+      exportMap.mtime = stats.mtime
+    }
+    if (contentHash) {
+      exportMap.contentHash = contentHash
+    }
 
-    exportCache.set(cacheKey, exportMap)
+    exportCache.set(cacheKey, exportMap, exportCacheSettings)
 
     return exportMap
   }
@@ -110,17 +369,181 @@ export class ExportMap {
       return null
     }
 
+    // the ambient module describes the files it matches which can not be
+    // analyzed, e.g. images matching `declare module '*.svg'`
+    const ambientModule = findAmbientModule(
+      source,
+      context.getPhysicalFilename
+        ? context.getPhysicalFilename()
+        : context.getFilename(),
+      context.settings,
+    )
+    const exportMap =
+      ambientModule?.path === path
+        ? null
+        : ExportMap.for(childContext(path, context))
+
+    return (
+      exportMap ??
+      (ambientModule
+        ? ExportMap.forAmbientModule(ambientModule, context)
+        : null)
+    )
+  }
+
+  /**
+   * The exports of the body of a `declare module 'name'` declaration
+   *
+   * @return `null` for shorthand declarations, whose exports are unknown
+   */
+  static forAmbientModule(
+    ambientModule: AmbientModule,
+    context: RuleContext | ChildContext,
+  ) {
+    if (ambientModule.code == null) {
+      return null
+    }
+
+    const parserPath = getDeclarationParserPath(
+      ambientModule.path,
+      context.settings,
+    )
+    if (parserPath == null) {
+      return null
+    }
+
+    const moduleContext = childContext(ambientModule.path, {
+      // rule contexts do not spread
+      ...childContext(ambientModule.path, context),
+      parserPath,
+    })
+
+    let exportMaps = ambientModuleExports.get(ambientModule)
+    if (!exportMaps) {
+      exportMaps = new Map()
+      ambientModuleExports.set(ambientModule, exportMaps)
+    }
+
+    let exportMap = exportMaps.get(moduleContext.cacheKey)
+    if (exportMap === undefined) {
+      log(
+        'parsing ambient module',
+        ambientModule.name,
+        'in',
+        ambientModule.path,
+      )
+      exportMap = ExportMap.parse(
+        ambientModule.path,
+        ambientModule.code,
+        moduleContext,
+      )
+      exportMaps.set(moduleContext.cacheKey, exportMap)
+    }
+    return exportMap
+  }
+
+  /**
+   * @param path - an already resolved path, parsed with the settings and the
+   * parser of `context`
+   */
+  static forPath(path: string, context: RuleContext | ChildContext) {
     return ExportMap.for(childContext(path, context))
   }
 
+  /**
+   * JSON modules only have a default export with native ES modules, bundlers
+   * may expose their top-level keys as named exports too
+   */
+  static parseJson(path: string, content: string, context: ChildContext) {
+    const m = new ExportMap(path)
+
+    let value: unknown
+    try {
+      value = JSON.parse(content.replace(/^\uFEFF/, ''))
+    } catch (err) {
+      const position = /position (\d+)/.exec((err as Error).message)
+      const lines = content
+        .slice(0, position ? Number(position[1]) : 0)
+        .split('\n')
+      m.errors.push(
+        Object.assign(err as ParseError, {
+          lineNumber: lines.length,
+          column: lines[lines.length - 1].length + 1,
+        }),
+      )
+      return m
+    }
+
+    m.namespace.set('default', { kind: 'value' })
+    if (
+      getFileSettings(path, context.settings)['import-x/json-named-exports'] &&
+      value != null &&
+      typeof value === 'object' &&
+      !Array.isArray(value)
+    ) {
+      for (const key of Object.keys(value)) {
+        if (key !== 'default') {
+          m.namespace.set(key, { kind: 'value' })
+        }
+      }
+    }
+
+    m.parseGoal = 'Module'
+    return m
+  }
+
+  /**
+   * CSS Modules export their class names as properties of the default export,
+   * and as named exports too with some bundlers
+   *
+   * @return `null` when the class names can not be listed
+   */
+  static parseCssModule(path: string, content: string, context: ChildContext) {
+    const cssModules = getFileSettings(path, context.settings)[
+      'import-x/css-modules'
+    ]
+    const settings = typeof cssModules === 'object' ? cssModules : {}
+    const names = extractCssModuleNames(
+      path,
+      content,
+      settings.localsConvention,
+    )
+    if (names == null) {
+      return null
+    }
+
+    const m = new ExportMap(path)
+    const classes = new ExportMap(path)
+    for (const name of names) {
+      classes.namespace.set(name, { kind: 'value' })
+      if (settings.namedExports && name !== 'default') {
+        m.namespace.set(name, { kind: 'value' })
+      }
+    }
+    classes.parseGoal = 'Module'
+
+    m.namespace.set('default', { kind: 'value', namespace: classes })
+    m.parseGoal = 'Module'
+    return m
+  }
+
   static parse(path: string, content: string, context: ChildContext) {
     const m = new ExportMap(path)
-    const isEsModuleInteropTrue = isEsModuleInterop()
+    const isEsModuleInteropTrue = isEsModuleInterop(context)
+
+    // only the scripts of single-file components are parsed, with the parser
+    // of their language
+    const componentScript = extractComponentScript(path, content)
+    if (componentScript) {
+      content = componentScript.code
+    }
 
     let ast: TSESTree.Program
     let visitorKeys: TSESLint.SourceCode.VisitorKeys | null
     try {
-      ;({ ast, visitorKeys } = parse(path, content, context))
+      ;({ ast, visitorKeys } = componentScript
+        ? parseComponentScript(componentScript, context)
+        : parse(path, content, context))
     } catch (err) {
       m.errors.push(err as ParseError)
       return m // can't continue
@@ -135,6 +558,16 @@ export class ExportMap {
       if (source.type !== 'Literal') {
         return null
       }
+      const declarationMetadata: DeclarationMetadata = {
+        source: {
+          // capturing actual node reference holds full AST in memory!
+          value: source.value,
+          loc: source.loc,
+        },
+        importedSpecifiers: new Set(['ImportNamespaceSpecifier']),
+        dynamic: true,
+      }
+      m.declarations.push(declarationMetadata)
       const p = remotePath(source.value as string)
       if (p == null) {
         return null
@@ -142,17 +575,7 @@ export class ExportMap {
       const getter = thunkFor(p, context)
       m.imports.set(p, {
         getter,
-        declarations: new Set([
-          {
-            source: {
-              // capturing actual node reference holds full AST in memory!
-              value: source.value,
-              loc: source.loc,
-            },
-            importedSpecifiers: new Set(['ImportNamespaceSpecifier']),
-            dynamic: true,
-          },
-        ]),
+        declarations: new Set([declarationMetadata]),
       })
     }
 
@@ -169,8 +592,14 @@ export class ExportMap {
       },
     })
 
-    const unambiguouslyESM = isUnambiguousModule(ast)
-    if (!unambiguouslyESM && !hasDynamicImports) {
+    const unambiguouslyESM = componentScript != null || isUnambiguousModule(ast)
+    const commonjs =
+      !unambiguouslyESM &&
+      visitorKeys != null &&
+      getFileSettings(path, context.settings)['import-x/commonjs-exports']
+        ? findCommonJsExports(ast, visitorKeys)
+        : null
+    if (!unambiguouslyESM && !hasDynamicImports && commonjs == null) {
       return null
     }
 
@@ -204,12 +633,15 @@ export class ExportMap {
 
     const namespaces = new Map()
 
-    function remotePath(value: string) {
-      return relative(value, path, context.settings)
+    function remotePath(value: string, importKind?: ImportKind) {
+      return relative(value, path, context.settings, {
+        importKind,
+        parserOptions: context.parserOptions,
+      })
     }
 
-    function resolveImport(value: string) {
-      const rp = remotePath(value)
+    function resolveImport(value: string, importKind?: ImportKind) {
+      const rp = remotePath(value, importKind)
       if (rp == null) {
         return null
       }
@@ -230,10 +662,32 @@ export class ExportMap {
       const nsfn = getNamespace(identifier)
       if (nsfn) {
         Object.defineProperty(object, 'namespace', { get: nsfn })
+        remoteSources.set(object, namespaces.get(identifier.name))
       }
       return object
     }
 
+    /**
+     * the kinds of the local bindings, for `export { name }` and
+     * `export default name`
+     */
+    const localKinds = new Map<string, ExportKindMetadata>()
+
+    function setLocalKind(name: string, metadata: ExportKindMetadata) {
+      localKinds.set(name, mergeKinds(localKinds.get(name), metadata))
+    }
+
+    function setExport(
+      name: string,
+      exportMeta: object,
+      metadata: ExportKindMetadata,
+    ) {
+      m.namespace.set(
+        name,
+        Object.assign(exportMeta, mergeKinds(m.namespace.get(name), metadata)),
+      )
+    }
+
     function processSpecifier(
       s:
         | TSESTree.ExportAllDeclaration
@@ -249,6 +703,11 @@ export class ExportMap {
 
       const exportMeta = {}
 
+      // export type { foo } (TS and Flow); export { type foo } (TS)
+      const isTypeOnly =
+        isTypeImportKind((s as { exportKind?: string }).exportKind) ||
+        isTypeImportKind((n as { exportKind?: string }).exportKind)
+
       let local: string
 
       switch (s.type) {
@@ -259,17 +718,19 @@ export class ExportMap {
           local = 'default'
           break
         case 'ExportNamespaceSpecifier':
-          m.namespace.set(
+          remoteSources.set(exportMeta, nsource)
+          setExport(
             s.exported.name,
             Object.defineProperty(exportMeta, 'namespace', {
               get() {
                 return resolveImport(nsource)
               },
             }),
+            { kind: 'namespace', isTypeOnly },
           )
           return
         case 'ExportAllDeclaration':
-          m.namespace.set(
+          setExport(
             s.exported!.name ||
               // @ts-expect-error - legacy parser type
               s.exported!.value,
@@ -278,15 +739,21 @@ export class ExportMap {
               // @ts-expect-error -- FIXME: no idea yet
               s.source.value,
             ),
+            { kind: 'namespace', isTypeOnly },
           )
           return
         case 'ExportSpecifier':
           if (!('source' in n && n.source)) {
-            m.namespace.set(
+            const localKind = localKinds.get(s.local.name)
+            setExport(
               s.exported.name ||
                 // @ts-expect-error - legacy parser type
                 s.exported.value,
               addNamespace(exportMeta, s.local),
+              {
+                kind: localKind?.kind,
+                isTypeOnly: isTypeOnly || !!localKind?.isTypeOnly,
+              },
             )
             return
           }
@@ -302,11 +769,15 @@ export class ExportMap {
       }
 
       if ('exported' in s) {
-        // todo: JSDoc
-        m.reexports.set(s.exported.name, {
+        const reexport = {
           local,
-          getImport: () => resolveImport(nsource),
-        })
+          isTypeOnly,
+          getImport: () =>
+            resolveImport(nsource, isTypeOnly ? 'type' : undefined),
+        }
+        remoteSources.set(reexport, nsource)
+        // todo: JSDoc
+        m.reexports.set(s.exported.name, reexport)
       }
     }
 
@@ -332,6 +803,9 @@ export class ExportMap {
           )
         } else if (supportedImportTypes.has(specifier.type)) {
           importedSpecifiers.add(specifier.type)
+        } else if (specifier.type === 'ExportSpecifier') {
+          // export { foo } from './foo'
+          importedSpecifiers.add(specifier.local.name)
         }
 
         // import { type Foo } (TypeScript/Flow); import { typeof Foo } (Flow)
@@ -351,6 +825,7 @@ export class ExportMap {
 
     function captureDependency(
       {
+        type,
         source,
       }:
         | TSESTree.ExportAllDeclaration
@@ -358,16 +833,13 @@ export class ExportMap {
         | TSESTree.ExportNamedDeclaration,
       isOnlyImportingTypes: boolean,
       importedSpecifiers = new Set<string>(),
+      exportAll = false,
+      importKind: ImportKind = isOnlyImportingTypes ? 'type' : 'import',
     ) {
       if (source == null) {
         return null
       }
 
-      const p = remotePath(source.value)
-      if (p == null) {
-        return null
-      }
-
       const declarationMetadata: DeclarationMetadata = {
         // capturing actual node reference holds full AST in memory!
         source: {
@@ -376,6 +848,17 @@ export class ExportMap {
         },
         isOnlyImportingTypes,
         importedSpecifiers,
+        reexport: type !== 'ImportDeclaration',
+        importKind,
+      }
+      m.declarations.push(declarationMetadata)
+      if (exportAll) {
+        m.exportAllDeclarations.add(declarationMetadata)
+      }
+
+      const p = remotePath(source.value, importKind)
+      if (p == null) {
+        return null
       }
 
       const existing = m.imports.get(p)
@@ -391,40 +874,50 @@ export class ExportMap {
 
     const source = makeSourceCode(content, ast)
 
-    function isEsModuleInterop() {
-      const parserOptions = context.parserOptions || {}
-      let tsconfigRootDir = parserOptions.tsconfigRootDir
-      const project = parserOptions.project
-      const cacheKey = hashObject({
-        tsconfigRootDir,
-        project,
-      }).digest('hex')
-      let tsConfig = tsconfigCache.get(cacheKey)
-      if (typeof tsConfig === 'undefined') {
-        tsconfigRootDir = tsconfigRootDir || process.cwd()
-        let tsconfigResult
-        if (project) {
-          const projects = Array.isArray(project) ? project : [project]
-          for (const project of projects) {
-            tsconfigResult = getTsconfig(
-              project === true
-                ? context.filename
-                : pathResolve(tsconfigRootDir, project),
-            )
-            if (tsconfigResult) {
-              break
-            }
-          }
-        } else {
-          tsconfigResult = getTsconfig(tsconfigRootDir)
+    for (const n of ast.body) {
+      if (n.type === 'ImportDeclaration') {
+        for (const specifier of n.specifiers) {
+          setLocalKind(specifier.local.name, {
+            kind:
+              specifier.type === 'ImportNamespaceSpecifier'
+                ? 'namespace'
+                : undefined,
+            isTypeOnly:
+              isTypeImportKind(n.importKind) ||
+              isTypeImportKind(
+                (specifier as { importKind?: string }).importKind,
+              ),
+          })
         }
-        tsConfig = (tsconfigResult && tsconfigResult.config) || null
-        tsconfigCache.set(cacheKey, tsConfig)
+        continue
       }
 
-      return tsConfig && tsConfig.compilerOptions
-        ? tsConfig.compilerOptions.esModuleInterop
-        : false
+      const declaration =
+        n.type === 'ExportNamedDeclaration' ? n.declaration : n
+      if (declaration == null) {
+        continue
+      }
+      if (declaration.type === 'VariableDeclaration') {
+        declaration.declarations.forEach(d => {
+          recursivePatternCapture(d.id, id =>
+            setLocalKind((id as TSESTree.Identifier).name, valueExport),
+          )
+        })
+      } else if (declaration.type === 'TSImportEqualsDeclaration') {
+        // import foo = require('./foo')
+        setLocalKind(declaration.id.name, {
+          isTypeOnly: isTypeImportKind(declaration.importKind),
+        })
+      } else if (
+        'id' in declaration &&
+        declaration.id != null &&
+        declaration.id.type === 'Identifier'
+      ) {
+        setLocalKind(declaration.id.name, {
+          kind: declarationKind(declaration),
+          isTypeOnly: false,
+        })
+      }
     }
 
     ast.body.forEach(function (n) {
@@ -433,14 +926,25 @@ export class ExportMap {
         if (n.declaration.type === 'Identifier') {
           addNamespace(exportMeta, n.declaration)
         }
-        m.namespace.set('default', exportMeta)
+        setExport(
+          'default',
+          exportMeta,
+          n.declaration.type === 'Identifier'
+            ? localKinds.get(n.declaration.name) ?? valueExport
+            : { kind: declarationKind(n.declaration), isTypeOnly: false },
+        )
         return
       }
 
       if (n.type === 'ExportAllDeclaration') {
-        const getter = captureDependency(n, n.exportKind === 'type')
+        const getter = captureDependency(
+          n,
+          n.exportKind === 'type',
+          undefined,
+          true,
+        )
         if (getter) {
-          m.dependencies.add(getter)
+          m.addDependency(getter, n.exportKind === 'type')
         }
         if (n.exported) {
           processSpecifier(n, n.exported, m)
@@ -481,18 +985,20 @@ export class ExportMap {
             // @ts-expect-error - legacy parser type
             case 'TSAbstractClassDeclaration':
             case 'TSModuleDeclaration':
-              m.namespace.set(
+              setExport(
                 (n.declaration.id as TSESTree.Identifier).name,
                 captureDoc(source, docStyleParsers, n),
+                { kind: declarationKind(n.declaration), isTypeOnly: false },
               )
               break
             /* eslint-enable no-fallthrough */
             case 'VariableDeclaration':
               n.declaration.declarations.forEach(d => {
                 recursivePatternCapture(d.id, id =>
-                  m.namespace.set(
+                  setExport(
                     (id as TSESTree.Identifier).name,
                     captureDoc(source, docStyleParsers, d, n),
+                    valueExport,
                   ),
                 )
               })
@@ -550,21 +1056,26 @@ export class ExportMap {
         })
         if (exportedDecls.length === 0) {
           // Export is not referencing any local declaration, must be re-exporting
-          m.namespace.set('default', captureDoc(source, docStyleParsers, n))
+          setExport(
+            'default',
+            captureDoc(source, docStyleParsers, n),
+            (exportedName && localKinds.get(exportedName)) || valueExport,
+          )
           return
         }
         if (
           isEsModuleInteropTrue && // esModuleInterop is on in tsconfig
           !m.namespace.has('default') // and default isn't added already
         ) {
-          m.namespace.set('default', {}) // add default export
+          setExport('default', {}, valueExport) // add default export
         }
         exportedDecls.forEach(decl => {
           if (decl.type === 'TSModuleDeclaration') {
             if (decl.body && decl.body.type === 'TSModuleDeclaration') {
-              m.namespace.set(
+              setExport(
                 (decl.body.id as TSESTree.Identifier).name,
                 captureDoc(source, docStyleParsers, decl.body),
+                { kind: 'namespace', isTypeOnly: false },
               )
             } else if (decl.body && decl.body.body) {
               decl.body.body.forEach(moduleBlockNode => {
@@ -580,7 +1091,7 @@ export class ExportMap {
                 } else if (namespaceDecl.type === 'VariableDeclaration') {
                   namespaceDecl.declarations.forEach(d =>
                     recursivePatternCapture(d.id, id =>
-                      m.namespace.set(
+                      setExport(
                         (id as TSESTree.Identifier).name,
                         captureDoc(
                           source,
@@ -589,34 +1100,67 @@ export class ExportMap {
                           namespaceDecl,
                           moduleBlockNode,
                         ),
+                        valueExport,
                       ),
                     ),
                   )
                 } else if ('id' in namespaceDecl) {
-                  m.namespace.set(
+                  setExport(
                     (namespaceDecl.id as TSESTree.Identifier).name,
                     captureDoc(source, docStyleParsers, moduleBlockNode),
+                    { kind: declarationKind(namespaceDecl), isTypeOnly: false },
                   )
                 }
               })
             }
           } else {
             // Export as default
-            m.namespace.set(
-              'default',
-              captureDoc(source, docStyleParsers, decl),
-            )
+            setExport('default', captureDoc(source, docStyleParsers, decl), {
+              kind: declarationKind(decl),
+              isTypeOnly: false,
+            })
           }
         })
       }
     })
 
+    if (commonjs) {
+      for (const [name, nodes] of commonjs.names) {
+        setExport(
+          name,
+          captureDoc(source, docStyleParsers, ...nodes),
+          valueExport,
+        )
+      }
+      for (const reexport of commonjs.reexports) {
+        const getter = captureDependency(
+          { source: reexport } as TSESTree.ExportAllDeclaration,
+          false,
+          undefined,
+          true,
+          'require',
+        )
+        if (getter) {
+          m.addDependency(getter, false)
+        }
+      }
+      // `module.exports` itself, but for modules transpiled from ES modules
+      if (!commonjs.esModule) {
+        setExport('default', {}, valueExport)
+      }
+      m.parseGoal = 'Script'
+    }
+
     if (
       isEsModuleInteropTrue && // esModuleInterop is on in tsconfig
       m.namespace.size > 0 && // anything is exported
       !m.namespace.has('default') // and default isn't added already
     ) {
-      m.namespace.set('default', {}) // add default export
+      setExport('default', {}, valueExport) // add default export
+    }
+
+    if (componentScript && !m.namespace.has('default')) {
+      setExport('default', {}, valueExport) // the component itself
     }
 
     if (unambiguouslyESM) {
@@ -632,6 +1176,10 @@ export class ExportMap {
     string,
     {
       local: string
+      /**
+       * `export type { name } from` or `export { type name } from`
+       */
+      isTypeOnly?: boolean
       getImport(): ExportMap | null
     }
   >()
@@ -641,6 +1189,11 @@ export class ExportMap {
    */
   dependencies = new Set<() => ExportMap | null>()
 
+  /**
+   * `export type * from` dependencies
+   */
+  private typeOnlyDependencies = new Set<() => ExportMap | null>()
+
   /**
    * dependencies of this module that are not explicitly re-exported
    */
@@ -654,16 +1207,35 @@ export class ExportMap {
 
   errors: ParseError[] = []
 
+  /**
+   * every import/export declaration with a source, resolved or not, in the
+   * order of capture, so that the persistent cache can replay them
+   */
+  private declarations: DeclarationMetadata[] = []
+
+  private exportAllDeclarations = new Set<DeclarationMetadata>()
+
   parseGoal: 'ambiguous' | 'Module' | 'Script' = 'ambiguous'
 
   private declare visitorKeys: TSESLint.SourceCode.VisitorKeys | null
 
   private declare mtime: Date
 
+  private declare contentHash: string
+
   declare doc: Annotation
 
   constructor(public path: string) {}
 
+  private addDependency(getter: () => ExportMap | null, isTypeOnly: boolean) {
+    if (!isTypeOnly) {
+      this.typeOnlyDependencies.delete(getter)
+    } else if (!this.dependencies.has(getter)) {
+      this.typeOnlyDependencies.add(getter)
+    }
+    this.dependencies.add(getter)
+  }
+
   get hasDefault() {
     return this.get('default') != null
   } // stronger than this.has
@@ -814,6 +1386,65 @@ export class ExportMap {
     }
   }
 
+  /**
+   * what an exported name declares, following re-exports and
+   * `export * from '...'` like {@link get}
+   *
+   * @return `undefined` if `name` is not exported, `null` if it is re-exported
+   * from an ignored module
+   */
+  getKind(name: string): ExportKindMetadata | null | undefined {
+    if (this.namespace.has(name)) {
+      const { kind, isTypeOnly = false } = this.namespace.get(
+        name,
+      ) as Partial<ExportKindMetadata>
+      return { kind, isTypeOnly }
+    }
+
+    if (this.reexports.has(name)) {
+      const reexports = this.reexports.get(name)!
+      const imported = reexports.getImport()
+
+      // if import is ignored, only `export type` is known
+      if (imported == null) {
+        return reexports.isTypeOnly ? { isTypeOnly: true } : null
+      }
+
+      // safeguard against cycles, only if name matches
+      if (imported.path === this.path && reexports.local === name) {
+        return undefined
+      }
+
+      const metadata = imported.getKind(reexports.local)
+      return metadata && reexports.isTypeOnly
+        ? { ...metadata, isTypeOnly: true }
+        : metadata
+    }
+
+    // default exports must be explicitly re-exported (#328)
+    if (name !== 'default') {
+      for (const dep of this.dependencies) {
+        const innerMap = dep()
+        // todo: report as unresolved?
+        if (!innerMap) {
+          continue
+        }
+
+        // safeguard against cycles
+        if (innerMap.path === this.path) {
+          continue
+        }
+
+        const metadata = innerMap.getKind(name)
+        if (metadata !== undefined) {
+          return metadata && this.typeOnlyDependencies.has(dep)
+            ? { ...metadata, isTypeOnly: true }
+            : metadata
+        }
+      }
+    }
+  }
+
   forEach(
     callback: (value: unknown, name: string, map: ExportMap) => void,
     thisArg?: unknown,
@@ -845,6 +1476,129 @@ export class ExportMap {
 
   // todo: keys, values, entries?
 
+  serialize(): SerializedExportMap {
+    return {
+      parseGoal: this.parseGoal,
+      doc: this.doc,
+      errors: this.errors.map(({ message, lineNumber, column }) => ({
+        message,
+        lineNumber,
+        column,
+      })),
+      visitorKeys: this.visitorKeys,
+      namespace: [...this.namespace].map(([name, meta]) => [
+        name,
+        {
+          doc: meta.doc,
+          namespace: remoteSources.get(meta),
+          kind: meta.kind,
+          isTypeOnly: meta.isTypeOnly,
+        },
+      ]),
+      reexports: [...this.reexports].map(([name, reexport]) => [
+        name,
+        {
+          local: reexport.local,
+          source: remoteSources.get(reexport)!,
+          isTypeOnly: reexport.isTypeOnly,
+        },
+      ]),
+      declarations: this.declarations.map(declaration => ({
+        ...declaration,
+        importedSpecifiers: declaration.importedSpecifiers && [
+          ...declaration.importedSpecifiers,
+        ],
+        exportAll: this.exportAllDeclarations.has(declaration),
+      })),
+    }
+  }
+
+  /**
+   * restore an {@link ExportMap} from the persistent cache, the lazy getters are
+   * rebuilt against the current resolution settings
+   */
+  static deserialize(data: SerializedExportMap, context: ChildContext) {
+    const { path } = context
+    const m = new ExportMap(path)
+
+    m.parseGoal = data.parseGoal
+    if (data.doc) {
+      m.doc = data.doc
+    }
+    m.errors = data.errors.map(({ message, lineNumber, column }) =>
+      Object.assign(new Error(message), { lineNumber, column }),
+    )
+    m.visitorKeys = data.visitorKeys
+
+    for (const [name, { namespace, ...meta }] of data.namespace) {
+      if (namespace != null) {
+        remoteSources.set(meta, namespace)
+        Object.defineProperty(meta, 'namespace', {
+          get: () => resolveRemote(namespace, context),
+        })
+      }
+      m.namespace.set(name, meta)
+    }
+
+    for (const [name, { local, source, isTypeOnly }] of data.reexports) {
+      const reexport = {
+        local,
+        isTypeOnly,
+        getImport: () =>
+          resolveRemote(source, context, isTypeOnly ? 'type' : undefined),
+      }
+      remoteSources.set(reexport, source)
+      m.reexports.set(name, reexport)
+    }
+
+    for (const {
+      exportAll,
+      importedSpecifiers,
+      ...declaration
+    } of data.declarations) {
+      const declarationMetadata: DeclarationMetadata = {
+        ...declaration,
+        importedSpecifiers: importedSpecifiers && new Set(importedSpecifiers),
+      }
+      m.declarations.push(declarationMetadata)
+      if (exportAll) {
+        m.exportAllDeclarations.add(declarationMetadata)
+      }
+
+      const p = relative(
+        declaration.source.value as string,
+        path,
+        context.settings,
+        {
+          importKind: declaration.importKind,
+          parserOptions: context.parserOptions,
+        },
+      )
+      if (p == null) {
+        continue
+      }
+
+      // dynamic imports replace earlier declarations, just like when parsing
+      const existing = declaration.dynamic ? undefined : m.imports.get(p)
+      if (existing == null) {
+        m.imports.set(p, {
+          getter: thunkFor(p, context),
+          declarations: new Set([declarationMetadata]),
+        })
+      } else {
+        existing.declarations.add(declarationMetadata)
+      }
+      if (exportAll) {
+        m.addDependency(
+          m.imports.get(p)!.getter,
+          !!declaration.isOnlyImportingTypes,
+        )
+      }
+    }
+
+    return m
+  }
+
   reportErrors(
     context: RuleContext,
     declaration: { source: TSESTree.Literal },
@@ -860,6 +1614,54 @@ export class ExportMap {
   }
 }
 
+const valueExport: ExportKindMetadata = { kind: 'value', isTypeOnly: false }
+
+/**
+ * `type` for TypeScript and Flow, `typeof` for Flow
+ */
+function isTypeImportKind(importKind: string | undefined) {
+  return importKind === 'type' || importKind === 'typeof'
+}
+
+function declarationKind(node: TSESTree.Node): ExportKind {
+  switch (node.type as string) {
+    case 'FunctionDeclaration':
+    case 'TSDeclareFunction':
+    case 'DeclareFunction':
+      return 'function'
+    case 'ClassDeclaration':
+    case 'TSAbstractClassDeclaration':
+      return 'class'
+    case 'TypeAlias':
+    case 'TSTypeAliasDeclaration':
+      return 'type'
+    case 'InterfaceDeclaration':
+    case 'TSInterfaceDeclaration':
+      return 'interface'
+    case 'TSEnumDeclaration':
+      return 'enum'
+    case 'TSModuleDeclaration':
+      return 'namespace'
+    default:
+      return 'value'
+  }
+}
+
+/**
+ * declarations merged with values, e.g. an interface and a class of the same
+ * name, are values
+ */
+function mergeKinds(
+  existing: ExportKindMetadata | undefined,
+  metadata: ExportKindMetadata,
+): ExportKindMetadata {
+  const { kind, isTypeOnly } =
+    existing && isTypeOnlyExport(metadata) && !isTypeOnlyExport(existing)
+      ? existing
+      : metadata
+  return { kind, isTypeOnly: !!isTypeOnly }
+}
+
 /**
  * parse docs from the first node that has leading comments
  */
@@ -978,6 +1780,21 @@ function thunkFor(p: string, context: RuleContext | ChildContext) {
   return () => ExportMap.for(childContext(p, context))
 }
 
+function resolveRemote(
+  source: string,
+  context: ChildContext,
+  importKind?: ImportKind,
+) {
+  const rp = relative(source, context.path, context.settings, {
+    importKind,
+    parserOptions: context.parserOptions,
+  })
+  if (rp == null) {
+    return null
+  }
+  return ExportMap.for(childContext(rp, context))
+}
+
 /**
  * Traverse a pattern/identifier node, calling 'callback'
  * for each leaf identifier.
@@ -1034,15 +1851,54 @@ let prevParserOptions = ''
 let settingsHash = ''
 let prevSettings = ''
 
+/**
+ * @return whether `esModuleInterop` is on in the tsconfig of the parser options
+ */
+function isEsModuleInterop(context: ChildContext) {
+  const parserOptions = context.parserOptions || {}
+  let tsconfigRootDir = parserOptions.tsconfigRootDir
+  const project = parserOptions.project
+  const cacheKey = hashObject({
+    tsconfigRootDir,
+    project,
+  }).digest('hex')
+  let tsConfig = tsconfigCache.get(cacheKey)
+  if (typeof tsConfig === 'undefined') {
+    tsconfigRootDir = tsconfigRootDir || process.cwd()
+    let tsconfigResult
+    if (project) {
+      const projects = Array.isArray(project) ? project : [project]
+      for (const project of projects) {
+        tsconfigResult = getTsconfig(
+          project === true
+            ? context.filename
+            : pathResolve(tsconfigRootDir, project),
+        )
+        if (tsconfigResult) {
+          break
+        }
+      }
+    } else {
+      tsconfigResult = getTsconfig(tsconfigRootDir)
+    }
+    tsConfig = (tsconfigResult && tsconfigResult.config) || null
+    tsconfigCache.set(cacheKey, tsConfig)
+  }
+
+  return tsConfig && tsConfig.compilerOptions
+    ? tsConfig.compilerOptions.esModuleInterop
+    : false
+}
+
 /**
  * don't hold full context object in memory, just grab what we need.
  * also calculate a cacheKey, where parts of the cacheKey hash are memoized
  */
-function childContext(
+export function childContext(
   path: string,
   context: RuleContext | ChildContext,
 ): ChildContext {
-  const { settings, parserOptions, parserPath } = context
+  const { settings, parserOptions, parserPath, languageOptions } = context
 
   if (JSON.stringify(settings) !== prevSettings) {
     settingsHash = hashObject({ settings }).digest('hex')
@@ -1060,6 +1916,8 @@ function childContext(
     settings,
     parserOptions,
     parserPath,
+    // ESLint in "flat" mode only sets context.languageOptions.parser
+    languageOptions,
     path,
     filename:
       'getPhysicalFilename' in context &&
@@ -1086,3 +1944,49 @@ function makeSourceCode(text: string, ast: TSESTree.Program) {
   // ESLint 4+
   return new SourceCode({ text, ast: ast as AST.Program })
 }
+
+/**
+ * parse the scripts of a single-file component, as a single module
+ */
+function parseComponentScript(
+  { blocks }: ComponentScript,
+  context: ChildContext,
+) {
+  const { languageOptions } = context
+  // component scripts are always modules, flat config options are read first
+  const moduleContext: ChildContext = {
+    ...context,
+    parserOptions: { ...context.parserOptions, sourceType: 'module' },
+    languageOptions: languageOptions && {
+      ...languageOptions,
+      sourceType: 'module',
+      parserOptions: languageOptions.parserOptions && {
+        ...languageOptions.parserOptions,
+        sourceType: 'module',
+      },
+    },
+  }
+
+  const results = blocks.map(block =>
+    parse(block.scriptPath, block.code, moduleContext),
+  )
+  if (results.length === 1) {
+    return results[0]
+  }
+
+  // every script keeps its locations in the file, in order
+  const first = results[0].ast
+  const last = results[results.length - 1].ast
+  const ast: TSESTree.Program = {
+    ...first,
+    body: results.flatMap(result => result.ast.body),
+    comments: results.flatMap(result => result.ast.comments || []),
+    tokens: results.flatMap(result => result.ast.tokens || []),
+    range: [first.range[0], last.range[1]],
+    loc: { start: first.loc.start, end: last.loc.end },
+  }
+  const visitorKeys = results.every(result => result.visitorKeys != null)
+    ? Object.assign({}, ...results.map(result => result.visitorKeys))
+    : null
+  return { ast, visitorKeys }
+}
@@ -1,9 +1,12 @@
 import type { TSESLint } from '@typescript-eslint/utils'
 
-import type { PluginConfig } from './types'
+import type { PluginConfig, PluginFlatConfig } from './types'
 
 import noUnresolved from './rules/no-unresolved'
 import named from './rules/named'
+import importAttributes from './rules/import-attributes'
+import typeModifier from './rules/type-modifier'
+import { toFlatConfig } from './utils/flat-config'
 
 export const rules = {
   'no-unresolved': noUnresolved,
@@ -50,6 +53,8 @@ export const rules = {
   'dynamic-import-chunkname': require('./rules/dynamic-import-chunkname'),
   'no-import-module-exports': require('./rules/no-import-module-exports'),
   'no-empty-named-blocks': require('./rules/no-empty-named-blocks'),
+  'import-attributes': importAttributes,
+  'type-modifier': typeModifier,
 
   // export
   'exports-last': require('./rules/exports-last'),
@@ -61,7 +66,7 @@ export const rules = {
   'imports-first': require('./rules/imports-first'),
 } satisfies Record<string, TSESLint.RuleModule<string, readonly unknown[]>>
 
-export const configs = {
+const legacyConfigs = {
   recommended: require('./config/recommended'),
 
   errors: require('./config/errors'),
@@ -76,3 +81,32 @@ export const configs = {
   electron: require('./config/electron'),
   typescript: require('./config/typescript'),
 } satisfies Record<string, PluginConfig>
+
+/**
+ * Flat configs reference the plugin object instead of its name, which must be
+ * the very object users register, i.e. the exports of this module.
+ */
+const createFlatConfig = (name: keyof typeof legacyConfigs) =>
+  toFlatConfig(`flat/${name}`, legacyConfigs[name], exports)
+
+export const configs = {
+  ...legacyConfigs,
+
+  'flat/recommended': createFlatConfig('recommended'),
+
+  'flat/errors': createFlatConfig('errors'),
+  'flat/warnings': createFlatConfig('warnings'),
+
+  'flat/stage-0': createFlatConfig('stage-0'),
+
+  'flat/react': createFlatConfig('react'),
+  'flat/react-native': createFlatConfig('react-native'),
+  'flat/electron': createFlatConfig('electron'),
+  'flat/typescript': createFlatConfig('typescript'),
+} satisfies Record<string, PluginConfig | PluginFlatConfig>
+
+export { clearCaches, invalidate } from './utils/invalidate'
+export { getCacheStats } from './utils/module-cache'
+export type { CacheStats } from './utils/module-cache'
+export { explainResolution } from './utils/resolve'
+export type { ResolutionTrace, ResolverTrace } from './utils/resolve'
@@ -0,0 +1,447 @@
+import type { TSESTree } from '@typescript-eslint/utils'
+import debug from 'debug'
+
+import { ExportMap, childContext } from './export-map'
+import type { ChildContext, RuleContext } from './types'
+import { hashObject } from './utils/hash'
+import { registerInvalidator } from './utils/invalidate'
+import { ModuleCache } from './utils/module-cache'
+
+const log = debug('eslint-plugin-import-x:ModuleGraph')
+
+export type ModuleEdgeKind = 'import' | 'reexport' | 'dynamic' | 'type'
+
+/**
+ * A single import or re-export declaration between two resolved files
+ */
+export interface ModuleEdge {
+  from: string
+  to: string
+  kind: ModuleEdgeKind
+  source: Pick<TSESTree.Literal, 'value' | 'loc'>
+  /**
+   * the imported names, `ImportDefaultSpecifier` and
+   * `ImportNamespaceSpecifier` for default and namespace imports
+   */
+  specifiers: ReadonlySet<string>
+}
+
+export type ModuleEdgeFilter = (edge: ModuleEdge) => boolean
+
+interface ModuleNode {
+  edges: ModuleEdge[]
+  /**
+   * the edges, to tell whether a file parsed again has changed
+   */
+  signature: string
+}
+
+/**
+ * the graphs of the configurations linted lately, least recently used first
+ */
+const graphs = new Map<string, ModuleGraph>()
+
+const MAX_GRAPHS = 10
+
+/**
+ * tells apart the parser objects of flat config, which are not serializable
+ */
+const parserIds = new WeakMap<object, number>()
+
+let parserCount = 0
+
+registerInvalidator({
+  invalidate(paths) {
+    for (const graph of graphs.values()) {
+      for (const p of paths) {
+        graph.delete(p)
+      }
+    }
+  },
+  clear() {
+    graphs.clear()
+  },
+})
+
+/**
+ * The files of a project and the declarations between them, built lazily from
+ * their {@link ExportMap}s, so that cross-file rules share a single traversal
+ * of the project, i.e. `no-cycle` and `no-unused-modules`.
+ *
+ * Nodes are revalidated whenever their export map changes, dependents are only
+ * known among the files loaded so far.
+ */
+export class ModuleGraph {
+  private nodes = new Map<string, ModuleNode | null>()
+
+  /**
+   * incoming edges by target
+   */
+  private reverseEdges = new Map<string, Set<ModuleEdge>>()
+
+  /**
+   * bumped whenever a loaded file changes, to drop memoized results
+   */
+  private generation = 0
+
+  /**
+   * the nodes built from each export map, which are not retained by the graph
+   * so that export maps can still be evicted from their cache. An evicted
+   * export map is parsed again as another object, the node is kept as long as
+   * its edges are the same
+   */
+  private builtFrom = new WeakMap<ExportMap, ModuleNode>()
+
+  private componentMemos = new ModuleCache()
+
+  constructor(private context: ChildContext) {}
+
+  /**
+   * @return the graph shared by all rules linting with the same settings,
+   * parser and language options
+   */
+  static for(context: RuleContext) {
+    // without a path, the cache key of export maps only covers the parser and
+    // the settings, and the rule context holding the AST is not retained
+    const graphContext: ChildContext = {
+      ...childContext('', context),
+      // files are parsed as themselves, not as the first linted file
+      filename: undefined,
+    }
+
+    // the options of flat config used to parse, whose parser is an object
+    const { parser, ecmaVersion, sourceType, parserOptions } =
+      graphContext.languageOptions || {}
+    const flatParser = graphContext.parserPath ? undefined : parser
+    let parserId = flatParser && parserIds.get(flatParser)
+    if (flatParser && parserId == null) {
+      parserId = ++parserCount
+      parserIds.set(flatParser, parserId)
+    }
+    const key =
+      graphContext.cacheKey +
+      hashObject({ ecmaVersion, sourceType, parserOptions, parserId }).digest(
+        'hex',
+      )
+
+    let graph = graphs.get(key)
+    if (graph) {
+      // re-inserting moves the graph to the most recently used end
+      graphs.delete(key)
+    } else {
+      graph = new ModuleGraph(graphContext)
+      for (const leastRecentlyUsed of graphs.keys()) {
+        if (graphs.size < MAX_GRAPHS) {
+          break
+        }
+        log('evicting graph', leastRecentlyUsed)
+        graphs.delete(leastRecentlyUsed)
+      }
+    }
+    graphs.set(key, graph)
+    return graph
+  }
+
+  /**
+   * @return `null` for files that can not be parsed, or are ignored
+   */
+  private node(path: string) {
+    let exportMap: ExportMap | null
+    try {
+      exportMap = ExportMap.forPath(path, { ...this.context, filename: path })
+    } catch (err) {
+      // e.g. deleted since it was resolved
+      log('failed to load', path, err)
+      exportMap = null
+    }
+    const cached = this.nodes.get(path)
+    if (
+      cached !== undefined &&
+      cached === (exportMap && this.builtFrom.get(exportMap))
+    ) {
+      return cached
+    }
+
+    if (exportMap == null) {
+      log('loading', path)
+      this.delete(path)
+      this.nodes.set(path, null)
+      return null
+    }
+
+    const edges: ModuleEdge[] = []
+    for (const [to, { declarations }] of exportMap.imports) {
+      for (const declaration of declarations) {
+        const edge: ModuleEdge = {
+          from: path,
+          to,
+          kind: declaration.dynamic
+            ? 'dynamic'
+            : declaration.isOnlyImportingTypes
+              ? 'type'
+              : declaration.reexport
+                ? 'reexport'
+                : 'import',
+          source: declaration.source,
+          specifiers: declaration.importedSpecifiers || new Set(),
+        }
+        edges.push(edge)
+      }
+    }
+
+    const signature = JSON.stringify(
+      edges.map(({ to, kind, source, specifiers }) => [
+        to,
+        kind,
+        source,
+        [...specifiers],
+      ]),
+    )
+    if (cached && cached.signature === signature) {
+      this.builtFrom.set(exportMap, cached)
+      return cached
+    }
+
+    log('loading', path)
+    this.delete(path)
+
+    for (const edge of edges) {
+      let incoming = this.reverseEdges.get(edge.to)
+      if (!incoming) {
+        incoming = new Set()
+        this.reverseEdges.set(edge.to, incoming)
+      }
+      incoming.add(edge)
+    }
+
+    const node = { edges, signature }
+    this.nodes.set(path, node)
+    this.builtFrom.set(exportMap, node)
+    return node
+  }
+
+  /**
+   * forget a file, it is loaded again on the next query
+   */
+  delete(path: string) {
+    if (!this.nodes.has(path)) {
+      return
+    }
+    const node = this.nodes.get(path)
+    if (node) {
+      for (const edge of node.edges) {
+        this.reverseEdges.get(edge.to)?.delete(edge)
+      }
+    }
+    this.nodes.delete(path)
+    this.generation++
+  }
+
+  has(path: string) {
+    return this.node(path) != null
+  }
+
+  /**
+   * @return the outgoing edges of a file, in declaration order per target
+   */
+  dependencies(path: string, filter?: ModuleEdgeFilter): ModuleEdge[] {
+    const node = this.node(path)
+    if (!node) {
+      return []
+    }
+    return filter ? node.edges.filter(filter) : node.edges
+  }
+
+  /**
+   * @return the incoming edges of a file, among the files loaded so far
+   */
+  dependents(path: string, filter?: ModuleEdgeFilter): ModuleEdge[] {
+    const incoming = [...(this.reverseEdges.get(path) || [])]
+    return filter ? incoming.filter(filter) : incoming
+  }
+
+  /**
+   * @return every file reachable from `from` through the edges accepted by
+   * `filter`, including `from` itself
+   */
+  reachable(from: string, filter?: ModuleEdgeFilter) {
+    const visited = new Set<string>()
+    const queue = [from]
+    while (queue.length > 0) {
+      const path = queue.shift()!
+      if (visited.has(path) || !this.has(path)) {
+        continue
+      }
+      visited.add(path)
+      for (const edge of this.dependencies(path, filter)) {
+        queue.push(edge.to)
+      }
+    }
+    return visited
+  }
+
+  /**
+   * Tarjan's algorithm over the files reachable from `from`.
+   *
+   * @param fromTargets - the dependencies of `from`, when they are known from
+   * a source being linted rather than from the file on disk
+   * @return the strongly connected components with more than one file, or
+   * with a file importing itself, i.e. the dependency cycles
+   */
+  stronglyConnectedComponents(
+    from: string,
+    filter?: ModuleEdgeFilter,
+    fromTargets?: string[],
+  ) {
+    const tarjan = new Tarjan(path =>
+      (path === from && fromTargets
+        ? fromTargets
+        : this.dependencies(path, filter).map(edge => edge.to)
+      ).filter(to => to === from || this.has(to)),
+    )
+    if (fromTargets || this.has(from)) {
+      tarjan.visit(from)
+    }
+    return tarjan.components.map(component => [...component])
+  }
+
+  /**
+   * The strongly connected components are computed once per `filterKey` and
+   * shared by all queries until a file of the graph changes, or the cache
+   * lifetime expires. The files of the returned component are checked for
+   * changes on every query.
+   *
+   * @param filterKey - identifies `filter`, which must not depend on the
+   * linted file
+   * @return the files in a cycle with `path`, including itself, or `null`
+   */
+  componentOf(
+    path: string,
+    filter: ModuleEdgeFilter,
+    filterKey: string,
+  ): ReadonlySet<string> | null {
+    const cacheSettings = ModuleCache.getSettings(this.context.settings)
+    for (;;) {
+      let memo = this.componentMemos.get<ComponentMemo>(
+        filterKey,
+        cacheSettings,
+      )
+      if (memo == null || memo.generation !== this.generation) {
+        log('computing components for', filterKey)
+        memo = {
+          generation: this.generation,
+          tarjan: new Tarjan(from =>
+            this.dependencies(from, filter)
+              .map(edge => edge.to)
+              .filter(to => this.has(to)),
+          ),
+        }
+        this.componentMemos.set(filterKey, memo, cacheSettings)
+      }
+
+      if (!memo.tarjan.visited(path) && this.has(path)) {
+        memo.tarjan.visit(path)
+      }
+      const component = memo.tarjan.componentOf.get(path) || null
+
+      // loading a changed file again bumps the generation
+      const { generation } = this
+      for (const member of component || [path]) {
+        this.node(member)
+      }
+      if (this.generation === generation) {
+        return component
+      }
+    }
+  }
+}
+
+interface ComponentMemo {
+  /**
+   * of the graph when the components were computed
+   */
+  generation: number
+  tarjan: Tarjan
+}
+
+/**
+ * Tarjan's algorithm, iterative as deep import chains would overflow the call
+ * stack, and resumable from more roots.
+ */
+class Tarjan {
+  /**
+   * only the dependency cycles, i.e. with more than one file or a file
+   * importing itself
+   */
+  components: Array<Set<string>> = []
+
+  componentOf = new Map<string, Set<string>>()
+
+  private indices = new Map<string, number>()
+  private lowLinks = new Map<string, number>()
+  private stack: string[] = []
+  private onStack = new Set<string>()
+
+  constructor(private targetsOf: (path: string) => string[]) {}
+
+  visited(path: string) {
+    return this.indices.has(path)
+  }
+
+  visit(root: string) {
+    const { indices, lowLinks, stack, onStack } = this
+    const work: Array<{ path: string; targets: string[]; next: number }> = []
+
+    const enter = (path: string) => {
+      indices.set(path, indices.size)
+      lowLinks.set(path, indices.size - 1)
+      stack.push(path)
+      onStack.add(path)
+      work.push({ path, targets: this.targetsOf(path), next: 0 })
+    }
+
+    enter(root)
+    while (work.length > 0) {
+      const frame = work[work.length - 1]
+      if (frame.next < frame.targets.length) {
+        const to = frame.targets[frame.next++]
+        if (!indices.has(to)) {
+          enter(to)
+        } else if (onStack.has(to)) {
+          lowLinks.set(
+            frame.path,
+            Math.min(lowLinks.get(frame.path)!, indices.get(to)!),
+          )
+        }
+        continue
+      }
+
+      work.pop()
+      const parent = work[work.length - 1]
+      if (parent) {
+        lowLinks.set(
+          parent.path,
+          Math.min(lowLinks.get(parent.path)!, lowLinks.get(frame.path)!),
+        )
+      }
+
+      if (lowLinks.get(frame.path) === indices.get(frame.path)) {
+        const component: string[] = []
+        let path: string
+        do {
+          path = stack.pop()!
+          onStack.delete(path)
+          component.push(path)
+        } while (path !== frame.path)
+
+        if (component.length > 1 || frame.targets.includes(frame.path)) {
+          const members = new Set(component.reverse())
+          this.components.push(members)
+          for (const member of members) {
+            this.componentOf.set(member, members)
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Ensures imports of non-JavaScript modules declare their `type` import
+ * attribute, as required by Node and browsers.
+ */
+
+import { extname } from 'path'
+
+import type { TSESTree } from '@typescript-eslint/utils'
+
+import { createRule } from '../utils'
+import { hasValidExtension } from '../utils/ignore'
+import { moduleVisitor } from '../utils/module-visitor'
+import { resolve } from '../utils/resolve'
+
+type Options = [
+  {
+    ignore?: string[]
+    types?: Record<string, string | false>
+  },
+]
+
+type MessageId = 'missing' | 'mismatch' | 'unexpected' | 'deprecatedAssert'
+
+const defaultTypes: Record<string, string | false> = {
+  '.json': 'json',
+  '.css': 'css',
+}
+
+interface ImportAttribute {
+  key: TSESTree.Node
+  value: TSESTree.Node
+}
+
+interface AttributesClause {
+  keyword: 'with' | 'assert'
+  /**
+   * the `assert` keyword to replace by `with`
+   */
+  keywordNode: TSESTree.Node | TSESTree.Token
+  type?: {
+    value: string
+    node: TSESTree.Node
+  }
+  /**
+   * the attributes are not an object literal, e.g. `import(x, { with: attrs })`
+   */
+  isDynamic?: boolean
+}
+
+function getName(node: TSESTree.Node) {
+  if (node.type === 'Identifier') {
+    return node.name
+  }
+  if (node.type === 'Literal') {
+    return String(node.value)
+  }
+}
+
+function findType(attributes: ImportAttribute[]) {
+  const attribute = attributes.find(({ key }) => getName(key) === 'type')
+  if (attribute && attribute.value.type === 'Literal') {
+    return { value: String(attribute.value.value), node: attribute.value }
+  }
+}
+
+export = createRule<Options, MessageId>({
+  name: 'import-attributes',
+  meta: {
+    type: 'problem',
+    docs: {
+      category: 'Static analysis',
+      description:
+        'Enforce the `type` import attribute of non-JavaScript modules.',
+      recommended: false,
+    },
+    fixable: 'code',
+    messages: {
+      missing:
+        "Import of '{{module}}' requires the import attribute `with { type: '{{expected}}' }`.",
+      mismatch:
+        "Import of '{{module}}' requires the import attribute type '{{expected}}', not '{{actual}}'.",
+      unexpected:
+        "Unexpected import attribute type '{{actual}}' for the JavaScript module '{{module}}'.",
+      deprecatedAssert:
+        'Use `with` instead of the deprecated `assert` for import attributes.',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          ignore: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string' },
+            uniqueItems: true,
+          },
+          types: {
+            type: 'object',
+            additionalProperties: {
+              anyOf: [{ type: 'string' }, { enum: [false] }],
+            },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  defaultOptions: [{}],
+  create(context) {
+    const options = context.options[0] || {}
+    const types = { ...defaultTypes, ...options.types }
+    const sourceCode = context.getSourceCode()
+
+    function getAttributesClause(
+      source: TSESTree.StringLiteral,
+      node:
+        | TSESTree.ImportDeclaration
+        | TSESTree.ExportNamedDeclaration
+        | TSESTree.ExportAllDeclaration
+        | TSESTree.ImportExpression,
+    ): AttributesClause | null | undefined {
+      if (node.type === 'ImportExpression') {
+        // `import(source, { with: { type } })`
+        const options = ('options' in node ? node.options : undefined) as
+          | TSESTree.Node
+          | undefined
+        if (!options) {
+          return
+        }
+        // e.g. `import(source, options)`
+        if (options.type !== 'ObjectExpression') {
+          return null
+        }
+        for (const property of options.properties) {
+          if (property.type !== 'Property') {
+            // e.g. `import(source, { ...options })`
+            return null
+          }
+          const keyword = getName(property.key)
+          if (keyword !== 'with' && keyword !== 'assert') {
+            continue
+          }
+          return {
+            keyword,
+            keywordNode: property.key,
+            type:
+              property.value.type === 'ObjectExpression'
+                ? findType(
+                    property.value.properties.filter(
+                      (p): p is TSESTree.Property => p.type === 'Property',
+                    ),
+                  )
+                : undefined,
+            isDynamic: property.value.type !== 'ObjectExpression',
+          }
+        }
+        return
+      }
+
+      // ESTree `attributes`, `assertions` for @typescript-eslint/parser
+      const attributes = (('attributes' in node && node.attributes) ||
+        ('assertions' in node && node.assertions) ||
+        []) as ImportAttribute[]
+      if (attributes.length === 0) {
+        return
+      }
+      const keywordToken = sourceCode.getTokenAfter(source)
+      if (
+        !keywordToken ||
+        (keywordToken.value !== 'with' && keywordToken.value !== 'assert')
+      ) {
+        return
+      }
+      return {
+        keyword: keywordToken.value,
+        keywordNode: keywordToken,
+        type: findType(attributes),
+      }
+    }
+
+    return moduleVisitor(
+      (source, node) => {
+        if (
+          node.type === 'CallExpression' ||
+          node.type === 'Literal' ||
+          // ignore type-only imports and exports
+          ('importKind' in node && node.importKind === 'type') ||
+          ('exportKind' in node && node.exportKind === 'type')
+        ) {
+          return
+        }
+
+        const clause = getAttributesClause(source, node)
+        if (clause === null) {
+          return // the attributes are only known at runtime
+        }
+
+        if (clause && clause.keyword === 'assert') {
+          context.report({
+            node: clause.keywordNode,
+            messageId: 'deprecatedAssert',
+            fix: fixer => fixer.replaceText(clause.keywordNode, 'with'),
+          })
+        }
+
+        if (clause && clause.isDynamic) {
+          return // the attributes are only known at runtime
+        }
+
+        const resolvedPath = resolve(source.value, context)
+        if (!resolvedPath) {
+          return // unresolved or a core module
+        }
+
+        const expected = types[extname(resolvedPath)]
+        const actual = clause && clause.type
+
+        if (expected === false) {
+          return
+        }
+
+        if (expected == null) {
+          if (actual && hasValidExtension(resolvedPath, context)) {
+            context.report({
+              node: actual.node,
+              messageId: 'unexpected',
+              data: { module: source.value, actual: actual.value },
+            })
+          }
+          return
+        }
+
+        if (!actual) {
+          context.report({
+            node: source,
+            messageId: 'missing',
+            data: { module: source.value, expected },
+          })
+        } else if (actual.value !== expected) {
+          context.report({
+            node: actual.node,
+            messageId: 'mismatch',
+            data: { module: source.value, expected, actual: actual.value },
+          })
+        }
+      },
+      { esmodule: true, ignore: options.ignore },
+    )
+  },
+})
@@ -6,7 +6,7 @@ import { ExportMap } from '../export-map'
 import { createRule } from '../utils'
 import { ModuleOptions } from '../utils/module-visitor'
 
-type MessageId = 'notFound' | 'notFoundDeep'
+type MessageId = 'notFound' | 'notFoundDeep' | 'notFoundInJson'
 
 export = createRule<[ModuleOptions], MessageId>({
   name: 'named',
@@ -21,6 +21,8 @@ export = createRule<[ModuleOptions], MessageId>({
     messages: {
       notFound: "{{name}} not found in '{{path}}'",
       notFoundDeep: '{{name}} not found via {{deepPath}}',
+      notFoundInJson:
+        "{{name}} not found in '{{path}}', JSON modules only have a default export",
     },
     schema: [
       {
@@ -120,7 +122,11 @@ export = createRule<[ModuleOptions], MessageId>({
           } else {
             context.report({
               node: imNode,
-              messageId: 'notFound',
+              messageId:
+                // without named exports, see `import-x/json-named-exports`
+                path.extname(imports.path) === '.json' && imports.size === 1
+                  ? 'notFoundInJson'
+                  : 'notFound',
               data: {
                 name,
                 path: node.source.value,
@@ -173,7 +179,9 @@ export = createRule<[ModuleOptions], MessageId>({
           // return if it's not a string source
           source.type !== 'Literal' ||
           variableExports == null ||
-          variableExports.parseGoal === 'ambiguous'
+          variableExports.parseGoal === 'ambiguous' ||
+          // requiring JSON returns the whole value
+          path.extname(variableExports.path) === '.json'
         ) {
           return
         }
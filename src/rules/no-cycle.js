@@ -2,14 +2,59 @@
  * Ensures that no imported module imports the linted module.
  */
 
+import fs from 'fs'
+import path, { dirname, relative } from 'path'
+
+import { minimatch } from 'minimatch'
+
+import { registerInvalidator } from '../utils/invalidate'
 import { resolve } from '../utils/resolve'
 import { ExportMap } from '../export-map'
+import { ModuleGraph } from '../module-graph'
 import { isExternalModule } from '../core/import-type'
+import { getContextPackagePath } from '../core/package-path'
 import { moduleVisitor, makeOptionsSchema } from '../utils/module-visitor'
 import { docsUrl } from '../docs-url'
 
 const traversed = new Set()
 
+/**
+ * set to record every cycle found into the `baseline` instead of reporting it
+ */
+const UPDATE_BASELINE_ENV = 'IMPORT_X_UPDATE_BASELINE'
+
+/**
+ * known cycles by baseline file
+ */
+const baselines = new Map()
+
+/**
+ * the cycles of each baseline file when updating them, along with whether
+ * some were recorded since it was last written
+ */
+const updatedBaselines = new Map()
+
+/**
+ * with `reportOnce`, the file reporting each strongly connected component, by
+ * its sorted files
+ */
+const componentReporters = new Map()
+
+registerInvalidator({
+  invalidate(paths) {
+    // the component of a changed file is reported again by the next file
+    // linted, which may be the changed one
+    for (const componentKey of componentReporters.keys()) {
+      if (componentKey.split('\0').some(file => paths.has(file))) {
+        componentReporters.delete(componentKey)
+      }
+    }
+  },
+  clear() {
+    componentReporters.clear()
+  },
+})
+
 module.exports = {
   meta: {
     type: 'suggestion',
@@ -45,6 +90,33 @@ module.exports = {
           type: 'boolean',
           default: false,
         },
+        reportOnce: {
+          description:
+            'Report each strongly connected component once, listing all of its imports',
+          type: 'boolean',
+          default: false,
+        },
+        weakestEdge: {
+          description:
+            'With `reportOnce`, suggest the import with the fewest imported names to break the cycle',
+          type: 'boolean',
+          default: false,
+        },
+        allow: {
+          description:
+            'Sets of globs, a cycle between files all matching the globs of one set is not reported',
+          type: 'array',
+          items: {
+            type: 'array',
+            items: { type: 'string' },
+            minItems: 1,
+          },
+        },
+        baseline: {
+          description:
+            'JSON file of the known cycles, only other cycles are reported',
+          type: 'string',
+        },
       }),
     ],
   },
@@ -57,6 +129,7 @@ module.exports = {
       return {}
     } // can't cycle-check a non-file
 
+    const graph = ModuleGraph.for(context)
     const options = context.options[0] || {}
     const maxDepth =
       typeof options.maxDepth === 'number' ? options.maxDepth : Infinity
@@ -64,6 +137,141 @@ module.exports = {
       options.ignoreExternal &&
       isExternalModule(name, resolve(name, context), context)
 
+    // the edges are resolved from their importing file already, but whether
+    // their target is external depends on the package of the linted file
+    const isIgnored = ({ source, to }) =>
+      options.ignoreExternal && isExternalModule(source.value, to, context)
+
+    const isConsidered = edge =>
+      // Ignore only type imports
+      edge.kind !== 'type' &&
+      !(
+        options.allowUnsafeDynamicCyclicDependency && edge.kind === 'dynamic'
+      ) &&
+      !isIgnored(edge)
+    const filterKey = JSON.stringify([
+      options.ignoreExternal ? getContextPackagePath(context) : false,
+      !!options.allowUnsafeDynamicCyclicDependency,
+    ])
+
+    const baselinePath = options.baseline && path.resolve(options.baseline)
+    const updatingBaseline =
+      !!baselinePath && !!process.env[UPDATE_BASELINE_ENV]
+    if (updatingBaseline && !updatedBaselines.has(baselinePath)) {
+      // other runs may have linted other files, their cycles are kept
+      updatedBaselines.set(baselinePath, {
+        cycles: new Map(
+          readBaseline(baselinePath).map(cycle => [cycle.join('\0'), cycle]),
+        ),
+        dirty: false,
+      })
+    }
+
+    /**
+     * @param {string[]} files - all the files of a cycle
+     */
+    function isAccepted(files) {
+      if (
+        options.allow &&
+        options.allow.some(globs =>
+          files.every(file =>
+            globs.some(
+              glob =>
+                minimatch(file, glob) ||
+                minimatch(file, path.join(process.cwd(), glob)),
+            ),
+          ),
+        )
+      ) {
+        return true
+      }
+
+      if (!baselinePath) {
+        return false
+      }
+      const cycle = files
+        .map(file => toPosixPath(relative(dirname(baselinePath), file)))
+        .sort()
+      if (updatingBaseline) {
+        const updated = updatedBaselines.get(baselinePath)
+        const key = cycle.join('\0')
+        if (!updated.cycles.has(key)) {
+          updated.cycles.set(key, cycle)
+          updated.dirty = true
+        }
+        return true
+      }
+      // cycles between known files only are accepted too, the route found
+      // depends on the order files are linted
+      return readBaseline(baselinePath).some(known =>
+        cycle.every(file => known.includes(file)),
+      )
+    }
+
+    /**
+     * with `reportOnce`, the imports of the linted source, which may differ
+     * from the file on disk
+     */
+    const ownEdges = []
+
+    function reportComponent() {
+      if (ownEdges.length === 0) {
+        return
+      }
+
+      const files = graph
+        .stronglyConnectedComponents(
+          myPath,
+          isConsidered,
+          ownEdges.map(({ to }) => to),
+        )
+        .find(files => files.includes(myPath))
+      if (!files) {
+        return
+      }
+      // every module of the component would report the same cycle, only the
+      // first one linted does
+      const componentKey = [...files].sort().join('\0')
+      const reporter = componentReporters.get(componentKey)
+      if ((reporter && reporter !== myPath) || isAccepted(files)) {
+        return
+      }
+      componentReporters.set(componentKey, myPath)
+
+      const members = new Set(files)
+      const isMember = ({ to }) => members.has(to)
+      const edges = ownEdges
+        .filter(isMember)
+        .concat(
+          files
+            .filter(file => file !== myPath)
+            .flatMap(file =>
+              graph.dependencies(file, isConsidered).filter(isMember),
+            ),
+        )
+      const edgeString = ({ from, to, source }) =>
+        `${relativePath(myPath, from)}:${source.loc.start.line}=>${relativePath(
+          myPath,
+          to,
+        )}`
+
+      let message = `Dependency cycle between ${files.length} modules: ${edges
+        .map(edgeString)
+        .join(', ')}`
+      // side-effect imports import no names, but are not the easiest to drop
+      const candidates = edges.filter(edge => !isSideEffectImport(edge))
+      if (options.weakestEdge && candidates.length > 0) {
+        const weakest = candidates.reduce((weakest, edge) =>
+          edge.specifiers.size < weakest.specifiers.size ? edge : weakest,
+        )
+        const count = weakest.specifiers.size
+        message += `. Weakest import: ${edgeString(weakest)} (${count} ${
+          count === 1 ? 'name' : 'names'
+        })`
+      }
+      context.report(edges[0].importer, message)
+    }
+
     function checkSourceValue(sourceNode, importer) {
       if (ignoreModule(sourceNode.value)) {
         return // ignore external modules
@@ -99,26 +307,58 @@ module.exports = {
         return // no-self-import territory
       }
 
-      const untraversed = [{ mget: () => imported, route: [] }]
-      function detectCycle({ mget, route }) {
-        const m = mget()
-        if (m == null) {
+      if (options.reportOnce) {
+        ownEdges.push({
+          from: myPath,
+          to: imported.path,
+          source: sourceNode,
+          specifiers: importedSpecifiers(importer),
+          importer,
+        })
+        return
+      }
+
+      // when the file on disk has the same import, there is a cycle only if
+      // both are in the same strongly connected component, which is shared
+      // by all the files linted with the same graph
+      let component
+      if (
+        graph
+          .dependencies(myPath, isConsidered)
+          .some(({ to }) => to === imported.path)
+      ) {
+        component = graph.componentOf(myPath, isConsidered, filterKey)
+        if (!component || !component.has(imported.path)) {
           return
         }
-        if (traversed.has(m.path)) {
+      }
+
+      const untraversed = [
+        { modulePath: imported.path, route: [], modules: [imported.path] },
+      ]
+      function detectCycle({ modulePath, route, modules }) {
+        if (component && !component.has(modulePath)) {
+          return
+        }
+        if (!graph.has(modulePath)) {
+          return
+        }
+        if (traversed.has(modulePath)) {
           return
         }
-        traversed.add(m.path)
+        traversed.add(modulePath)
 
-        for (const [path, { getter, declarations }] of m.imports) {
+        for (const [path, edges] of groupByTarget(
+          graph.dependencies(modulePath),
+        )) {
           if (traversed.has(path)) {
             continue
           }
-          const toTraverse = [...declarations].filter(
-            ({ source, isOnlyImportingTypes }) =>
-              !ignoreModule(source.value) &&
+          const toTraverse = edges.filter(
+            edge =>
+              !isIgnored(edge) &&
               // Ignore only type imports
-              !isOnlyImportingTypes,
+              edge.kind !== 'type',
           )
 
           /*
@@ -126,7 +366,7 @@ module.exports = {
           */
           if (
             options.allowUnsafeDynamicCyclicDependency &&
-            toTraverse.some(d => d.dynamic)
+            toTraverse.some(({ kind }) => kind === 'dynamic')
           ) {
             return
           }
@@ -146,7 +386,11 @@ module.exports = {
           }
           if (route.length + 1 < maxDepth) {
             for (const { source } of toTraverse) {
-              untraversed.push({ mget: getter, route: route.concat(source) })
+              untraversed.push({
+                modulePath: path,
+                route: route.concat(source),
+                modules: modules.concat(path),
+              })
             }
           }
         }
@@ -155,6 +399,9 @@ module.exports = {
       while (untraversed.length > 0) {
         const next = untraversed.shift() // bfs!
         if (detectCycle(next)) {
+          if (isAccepted([myPath].concat(next.modules))) {
+            return
+          }
           const message =
             next.route.length > 0
               ? `Dependency cycle via ${routeString(next.route)}`
@@ -167,12 +414,126 @@ module.exports = {
 
     return Object.assign(moduleVisitor(checkSourceValue, context.options[0]), {
       'Program:exit'() {
+        if (options.reportOnce) {
+          reportComponent()
+        }
+        if (updatingBaseline && updatedBaselines.get(baselinePath).dirty) {
+          writeBaseline(baselinePath)
+        }
         traversed.clear()
       },
     })
   },
 }
 
+/**
+ * @return {string[][]} the known cycles, as sorted paths relative to the
+ * baseline file
+ */
+function readBaseline(baselinePath) {
+  let stats
+  try {
+    stats = fs.statSync(baselinePath)
+  } catch {
+    return [] // not generated yet
+  }
+
+  const cached = baselines.get(baselinePath)
+  if (cached && cached.mtimeMs === stats.mtimeMs) {
+    return cached.cycles
+  }
+
+  let cycles
+  try {
+    cycles = JSON.parse(fs.readFileSync(baselinePath, 'utf8'))
+  } catch (err) {
+    throw new Error(
+      `Unable to read the no-cycle baseline ${baselinePath}: ${err.message}`,
+    )
+  }
+  if (
+    !Array.isArray(cycles) ||
+    !cycles.every(
+      cycle =>
+        Array.isArray(cycle) && cycle.every(file => typeof file === 'string'),
+    )
+  ) {
+    throw new Error(
+      `Invalid no-cycle baseline ${baselinePath}: expected an array of cycles, each an array of paths`,
+    )
+  }
+  baselines.set(baselinePath, { mtimeMs: stats.mtimeMs, cycles })
+  return cycles
+}
+
+function writeBaseline(baselinePath) {
+  const updated = updatedBaselines.get(baselinePath)
+  // parallel ESLint workers update the same file, the cycles they recorded
+  // since it was read are kept
+  for (const cycle of readBaseline(baselinePath)) {
+    const key = cycle.join('\0')
+    if (!updated.cycles.has(key)) {
+      updated.cycles.set(key, cycle)
+    }
+  }
+  const cycles = [...updated.cycles.values()].sort((a, b) =>
+    a.join('\0') < b.join('\0') ? -1 : 1,
+  )
+  fs.mkdirSync(dirname(baselinePath), { recursive: true })
+  // renamed, so that other workers never read a partial file
+  const tempPath = `${baselinePath}.${process.pid}.tmp`
+  fs.writeFileSync(tempPath, `${JSON.stringify(cycles, null, 2)}\n`)
+  fs.renameSync(tempPath, baselinePath)
+  updated.dirty = false
+}
+
+function toPosixPath(filePath) {
+  return filePath.replace(/\\/g, '/')
+}
+
+function groupByTarget(edges) {
+  const edgesByTarget = new Map()
+  for (const edge of edges) {
+    const targetEdges = edgesByTarget.get(edge.to)
+    if (targetEdges) {
+      targetEdges.push(edge)
+    } else {
+      edgesByTarget.set(edge.to, [edge])
+    }
+  }
+  return edgesByTarget
+}
+
+/**
+ * the imported names like `ModuleGraph` edges, only their count matters
+ */
+function importedSpecifiers(importer) {
+  switch (importer.type) {
+    case 'ImportDeclaration':
+    case 'ExportNamedDeclaration':
+      return new Set(importer.specifiers.map((_, index) => index))
+    case 'ExportAllDeclaration':
+      return new Set()
+    default:
+      // import() and require()
+      return new Set(['ImportNamespaceSpecifier'])
+  }
+}
+
+/**
+ * e.g. `import './polyfill'`
+ */
+function isSideEffectImport(edge) {
+  return edge.importer
+    ? edge.importer.type === 'ImportDeclaration' &&
+        edge.importer.specifiers.length === 0
+    : edge.kind === 'import' && edge.specifiers.size === 0
+}
+
+function relativePath(from, to) {
+  return relative(dirname(from), to) || '.'
+}
+
 function routeString(route) {
   return route.map(s => `${s.value}:${s.loc.start.line}`).join('=>')
 }
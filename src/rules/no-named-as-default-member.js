@@ -34,7 +34,9 @@ module.exports = {
       ImportDefaultSpecifier(node) {
         const declaration = importDeclaration(context)
         const exportMap = ExportMap.get(declaration.source.value, context)
-        if (exportMap == null) {
+        // the default export of CommonJS modules is the object of their named
+        // exports
+        if (exportMap == null || exportMap.parseGoal === 'Script') {
           return
         }
 
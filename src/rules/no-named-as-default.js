@@ -24,7 +24,9 @@ module.exports = {
       const declaration = importDeclaration(context)
 
       const imports = ExportMap.get(declaration.source.value, context)
-      if (imports == null) {
+      // the default export of CommonJS modules is the object of their named
+      // exports
+      if (imports == null || imports.parseGoal === 'Script') {
         return
       }
 
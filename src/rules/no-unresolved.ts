@@ -4,12 +4,15 @@
 
 import {
   CASE_SENSITIVE_FS,
+  explain,
   fileExistsWithCaseSync,
+  formatResolutionTrace,
   resolve,
 } from '../utils/resolve'
 import { ModuleCache } from '../utils/module-cache'
 import {
   ModuleOptions,
+  getImportKind,
   makeOptionsSchema,
   moduleVisitor,
 } from '../utils/module-visitor'
@@ -19,10 +22,11 @@ type Options = [
   ModuleOptions & {
     caseSensitive?: boolean
     caseSensitiveStrict?: boolean
+    explain?: boolean
   },
 ]
 
-type MessageId = 'unresolved' | 'casingMismatch'
+type MessageId = 'unresolved' | 'unresolvedExplained' | 'casingMismatch'
 
 export = createRule<Options, MessageId>({
   name: 'no-unresolved',
@@ -36,6 +40,8 @@ export = createRule<Options, MessageId>({
     },
     messages: {
       unresolved: "Unable to resolve path to module '{{module}}'.",
+      unresolvedExplained:
+        "Unable to resolve path to module '{{module}}'.\n{{trace}}",
       casingMismatch:
         "Casing of '{{module}}' does not match the underlying filesystem.",
     },
@@ -43,6 +49,7 @@ export = createRule<Options, MessageId>({
       makeOptionsSchema({
         caseSensitive: { type: 'boolean', default: true },
         caseSensitiveStrict: { type: 'boolean' },
+        explain: { type: 'boolean' },
       }),
     ],
   },
@@ -68,9 +75,23 @@ export = createRule<Options, MessageId>({
       const caseSensitiveStrict =
         !CASE_SENSITIVE_FS && options.caseSensitiveStrict
 
-      const resolvedPath = resolve(source.value, context)
+      const importKind = getImportKind(node)
+      const resolvedPath = resolve(source.value, context, importKind)
 
       if (resolvedPath === undefined) {
+        const trace =
+          options.explain && explain(source.value, context, importKind)
+        if (trace) {
+          context.report({
+            node: source,
+            messageId: 'unresolvedExplained',
+            data: {
+              module: source.value,
+              trace: formatResolutionTrace(trace),
+            },
+          })
+          return
+        }
         context.report({
           node: source,
           messageId: 'unresolved',
@@ -4,73 +4,17 @@
  */
 
 import { getFileExtensions } from '../utils/ignore'
+import { registerInvalidator } from '../utils/invalidate'
+import { listFilesToProcess } from '../utils/list-files'
 import { resolve } from '../utils/resolve'
 import { visit } from '../utils/visit'
 import { dirname, join } from 'path'
 import { readPkgUp } from '../utils/read-pkg-ip'
 
 import { ExportMap, recursivePatternCapture } from '../export-map'
+import { ModuleGraph } from '../module-graph'
 import { docsUrl } from '../docs-url'
 
-let FileEnumerator
-let listFilesToProcess
-
-try {
-  ;({ FileEnumerator } = require('eslint/use-at-your-own-risk'))
-} catch (e) {
-  try {
-    // has been moved to eslint/lib/cli-engine/file-enumerator in version 6
-    ;({ FileEnumerator } = require('eslint/lib/cli-engine/file-enumerator'))
-  } catch (e) {
-    try {
-      // eslint/lib/util/glob-util has been moved to eslint/lib/util/glob-utils with version 5.3
-      const {
-        listFilesToProcess: originalListFilesToProcess,
-      } = require('eslint/lib/util/glob-utils')
-
-      // Prevent passing invalid options (extensions array) to old versions of the function.
-      // https://github.com/eslint/eslint/blob/v5.16.0/lib/util/glob-utils.js#L178-L280
-      // https://github.com/eslint/eslint/blob/v5.2.0/lib/util/glob-util.js#L174-L269
-      listFilesToProcess = function (src, extensions) {
-        return originalListFilesToProcess(src, {
-          extensions,
-        })
-      }
-    } catch (e) {
-      const {
-        listFilesToProcess: originalListFilesToProcess,
-      } = require('eslint/lib/util/glob-util')
-
-      listFilesToProcess = function (src, extensions) {
-        const patterns = src.concat(
-          src.flatMap(pattern =>
-            extensions.map(extension =>
-              /\*\*|\*\./.test(pattern)
-                ? pattern
-                : `${pattern}/**/*${extension}`,
-            ),
-          ),
-        )
-
-        return originalListFilesToProcess(patterns)
-      }
-    }
-  }
-}
-
-if (FileEnumerator) {
-  listFilesToProcess = function (src, extensions) {
-    const e = new FileEnumerator({
-      extensions,
-    })
-
-    return Array.from(e.iterateFiles(src), ({ filePath, ignored }) => ({
-      ignored,
-      filename: filePath,
-    }))
-  }
-}
-
 const EXPORT_DEFAULT_DECLARATION = 'ExportDefaultDeclaration'
 const EXPORT_NAMED_DECLARATION = 'ExportNamedDeclaration'
 const EXPORT_ALL_DECLARATION = 'ExportAllDeclaration'
@@ -185,34 +129,25 @@ const resolveFiles = (src, ignoreExports, context) => {
 
   // prepare list of ignored files
   const ignoredFilesList = listFilesToProcess(ignoreExports, extensions)
-  ignoredFilesList.forEach(({ filename }) => ignoredFiles.add(filename))
+  ignoredFilesList.forEach(filename => ignoredFiles.add(filename))
 
   // prepare list of source files, don't consider files from node_modules
 
-  return new Set(
-    srcFileList.flatMap(({ filename }) =>
-      isNodeModule(filename) ? [] : filename,
-    ),
-  )
+  return new Set(srcFileList.filter(filename => !isNodeModule(filename)))
 }
 
 /**
  * parse all source files and build up 2 maps containing the existing imports and exports
  */
 const prepareImportsAndExports = (srcFiles, context) => {
+  const graph = ModuleGraph.for(context)
   const exportAll = new Map()
   srcFiles.forEach(file => {
     const exports = new Map()
     const imports = new Map()
     const currentExports = ExportMap.get(file, context)
     if (currentExports) {
-      const {
-        dependencies,
-        reexports,
-        imports: localImportList,
-        namespace,
-        visitorKeys,
-      } = currentExports
+      const { dependencies, reexports, namespace, visitorKeys } = currentExports
 
       visitorKeyMap.set(file, visitorKeys)
       // dependencies === export * from
@@ -252,17 +187,15 @@ const prepareImportsAndExports = (srcFiles, context) => {
         imports.set(reexport.path, localImport)
       })
 
-      localImportList.forEach((value, key) => {
-        if (isNodeModule(key)) {
+      graph.dependencies(file).forEach(({ to, specifiers }) => {
+        if (isNodeModule(to)) {
           return
         }
-        const localImport = imports.get(key) || new Set()
-        value.declarations.forEach(({ importedSpecifiers }) => {
-          importedSpecifiers.forEach(specifier => {
-            localImport.add(specifier)
-          })
+        const localImport = imports.get(to) || new Set()
+        specifiers.forEach(specifier => {
+          localImport.add(specifier)
         })
-        imports.set(key, localImport)
+        imports.set(to, localImport)
       })
       importList.set(file, imports)
 
@@ -359,6 +292,23 @@ const doPreparation = (src, ignoreExports, context) => {
   lastPrepareKey = prepareKey
 }
 
+registerInvalidator({
+  invalidate() {
+    // the usage of any export may depend on the changed files, prepare again
+    // on the next run, which only parses the changed files again
+    lastPrepareKey = undefined
+  },
+  clear() {
+    importList.clear()
+    exportList.clear()
+    visitorKeyMap.clear()
+    ignoredFiles.clear()
+    filesOutsideSrc.clear()
+    srcFiles = undefined
+    lastPrepareKey = undefined
+  },
+})
+
 const newNamespaceImportExists = specifiers =>
   specifiers.some(({ type }) => type === IMPORT_NAMESPACE_SPECIFIER)
 
@@ -0,0 +1,248 @@
+/**
+ * Ensures type-only exports are imported and re-exported with the `type`
+ * modifier, which transpilers removing imports file by file rely on, see
+ * `isolatedModules` and `verbatimModuleSyntax`.
+ */
+
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils'
+
+import { ExportMap, isTypeOnlyExport } from '../export-map'
+import { createRule } from '../utils'
+
+type Options = [
+  {
+    style?: 'prefer-inline' | 'prefer-top-level'
+  },
+]
+
+type MessageId = 'typeImport' | 'typeReexport'
+
+type Specifier =
+  | TSESTree.ImportClause
+  | TSESTree.ExportSpecifier
+  | TSESTree.ImportSpecifier
+
+function isTypeKind(kind: string | undefined) {
+  // `typeof` for Flow
+  return kind === 'type' || kind === 'typeof'
+}
+
+function getName(node: TSESTree.Identifier | TSESTree.StringLiteral) {
+  return node.type === 'Identifier' ? node.name : node.value
+}
+
+/**
+ * @return the name exported by the imported module, `undefined` for namespace
+ * imports
+ */
+function getImportedName(specifier: Specifier) {
+  switch (specifier.type) {
+    case 'ImportDefaultSpecifier':
+      return 'default'
+    case 'ImportSpecifier':
+      return getName(specifier.imported)
+    case 'ExportSpecifier':
+      return getName(specifier.local)
+  }
+}
+
+function getSpecifierKind(specifier: Specifier) {
+  if ('importKind' in specifier) {
+    return specifier.importKind as string | undefined
+  }
+  if ('exportKind' in specifier) {
+    return specifier.exportKind as string | undefined
+  }
+}
+
+export = createRule<Options, MessageId>({
+  name: 'type-modifier',
+  meta: {
+    type: 'problem',
+    docs: {
+      category: 'Static analysis',
+      description:
+        'Enforce the `type` modifier on imports and re-exports of type-only exports.',
+      recommended: false,
+    },
+    fixable: 'code',
+    messages: {
+      typeImport:
+        "'{{name}}' is a type-only export of '{{module}}', import it with `type`.",
+      typeReexport:
+        "'{{name}}' is a type-only export of '{{module}}', re-export it with `type`.",
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          style: {
+            type: 'string',
+            enum: ['prefer-inline', 'prefer-top-level'],
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  defaultOptions: [{}],
+  create(context) {
+    const style = (context.options[0] || {}).style || 'prefer-inline'
+    const sourceCode = context.getSourceCode()
+
+    /**
+     * the fix of every type-only specifier of a declaration, only one is
+     * applied as they overlap
+     */
+    function fixDeclaration(
+      node: TSESTree.ImportDeclaration | TSESTree.ExportNamedDeclaration,
+      typeOnly: Specifier[],
+    ): TSESLint.ReportFixFunction | null {
+      const specifiers: Specifier[] = node.specifiers
+      const remaining = specifiers.filter(s => !typeOnly.includes(s))
+
+      if (typeOnly.some(s => s.type === 'ImportDefaultSpecifier')) {
+        // `import type Foo from` can not have named bindings too
+        if (specifiers.length > 1) {
+          return null
+        }
+        return fixer =>
+          fixer.insertTextAfter(sourceCode.getFirstToken(node)!, ' type')
+      }
+
+      if (style === 'prefer-inline') {
+        return fixer =>
+          typeOnly.map(specifier => fixer.insertTextBefore(specifier, 'type '))
+      }
+
+      // every binding of the declaration is a type
+      if (remaining.every(s => isTypeKind(getSpecifierKind(s)))) {
+        return fixer => [
+          fixer.insertTextAfter(sourceCode.getFirstToken(node)!, ' type'),
+          // `type` of inline type specifiers
+          ...remaining.map(specifier => {
+            const typeToken = sourceCode.getFirstToken(specifier)!
+            return fixer.removeRange([
+              typeToken.range[0],
+              sourceCode.getTokenAfter(typeToken)!.range[0],
+            ])
+          }),
+        ]
+      }
+
+      // move the types to a new type-only declaration
+      return fixer => {
+        const fixes: TSESLint.RuleFix[] = []
+        const defaultSpecifier = remaining.find(
+          s => s.type === 'ImportDefaultSpecifier',
+        )
+        if (defaultSpecifier && remaining.length === 1) {
+          // import Default, { Type } from 'mod' becomes import Default from 'mod'
+          const comma = sourceCode.getTokenAfter(defaultSpecifier)!
+          const closingBrace = sourceCode.getTokenAfter(
+            specifiers[specifiers.length - 1],
+            token => token.value === '}',
+          )!
+          fixes.push(fixer.removeRange([comma.range[0], closingBrace.range[1]]))
+        } else {
+          // remove each run of types along with the comma separating it from
+          // the other bindings
+          const named = specifiers.filter(
+            s => s.type !== 'ImportDefaultSpecifier',
+          )
+          for (let start = 0; start < named.length; start++) {
+            if (!typeOnly.includes(named[start])) {
+              continue
+            }
+            let end = start
+            while (
+              end + 1 < named.length &&
+              typeOnly.includes(named[end + 1])
+            ) {
+              end++
+            }
+            fixes.push(
+              end + 1 < named.length
+                ? fixer.removeRange([
+                    named[start].range[0],
+                    named[end + 1].range[0],
+                  ])
+                : fixer.removeRange([
+                    sourceCode.getTokenAfter(named[start - 1])!.range[0],
+                    named[end].range[1],
+                  ]),
+            )
+            start = end
+          }
+        }
+
+        const keyword = node.type === 'ImportDeclaration' ? 'import' : 'export'
+        const names = typeOnly.map(specifier => sourceCode.getText(specifier))
+        fixes.push(
+          fixer.insertTextAfter(
+            node,
+            `\n${keyword} type { ${names.join(', ')} } from ${sourceCode.getText(node.source!)}`,
+          ),
+        )
+        return fixes
+      }
+    }
+
+    function checkDeclaration(
+      node: TSESTree.ImportDeclaration | TSESTree.ExportNamedDeclaration,
+    ) {
+      const source = node.source
+      if (
+        source == null ||
+        isTypeKind(
+          'importKind' in node
+            ? (node.importKind as string)
+            : (node.exportKind as string),
+        )
+      ) {
+        return
+      }
+
+      const specifiers = (node.specifiers as Specifier[]).filter(
+        specifier =>
+          getImportedName(specifier) != null &&
+          !isTypeKind(getSpecifierKind(specifier)),
+      )
+      if (specifiers.length === 0) {
+        return
+      }
+
+      const imports = ExportMap.get(source.value, context)
+      if (imports == null || imports.errors.length > 0) {
+        return
+      }
+
+      const typeOnly = specifiers.filter(specifier => {
+        const metadata = imports.getKind(getImportedName(specifier)!)
+        return metadata != null && isTypeOnlyExport(metadata)
+      })
+      if (typeOnly.length === 0) {
+        return
+      }
+
+      const fix = fixDeclaration(node, typeOnly)
+      for (const specifier of typeOnly) {
+        context.report({
+          node: specifier,
+          messageId:
+            node.type === 'ImportDeclaration' ? 'typeImport' : 'typeReexport',
+          data: {
+            name: getImportedName(specifier),
+            module: source.value,
+          },
+          fix,
+        })
+      }
+    }
+
+    return {
+      ImportDeclaration: checkDeclaration,
+      ExportNamedDeclaration: checkDeclaration,
+    }
+  },
+})
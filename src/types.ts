@@ -11,6 +11,24 @@ export interface NodeResolverOptions {
   paths?: string[]
 }
 
+/**
+ * Options of the first-party resolver, enabled with the `import-x` resolver
+ * name
+ */
+export interface ImportXResolverOptions {
+  /**
+   * condition names matched in `exports`/`imports`, on top of the ones
+   * implied by the kind of import (`import`, `require` or `types`)
+   *
+   * @default ['node']
+   */
+  conditions?: string[]
+  /**
+   * @default ['.mjs', '.js', '.json', '.node']
+   */
+  extensions?: readonly string[]
+}
+
 export interface WebpackResolverOptions {
   config?: string | { resolve: Omit<ResolveOptions, 'fileSystem'> }
   'config-index'?: number
@@ -24,29 +42,71 @@ export type DocStyle = 'jsdoc' | 'tomdoc'
 
 export type Arrayable<T> = T | readonly T[]
 
+export interface CssModulesSettings {
+  /**
+   * how class names are exposed, as the option of the same name of
+   * `css-loader`
+   *
+   * @default 'asIs'
+   */
+  localsConvention?:
+    | 'asIs'
+    | 'camelCase'
+    | 'camelCaseOnly'
+    | 'dashes'
+    | 'dashesOnly'
+  /**
+   * class names are named exports too, and not only properties of the default
+   * export
+   */
+  namedExports?: boolean
+}
+
 export interface ImportSettings {
+  ambientModules?: boolean | readonly string[]
   cache?: {
     lifetime?: number | '∞' | 'Infinity'
+    negativeLifetime?: number | '∞' | 'Infinity'
+    maxEntries?: number
+    maxExportMaps?: number
+    dir?: string
+    invalidation?: 'mtime' | 'content-hash' | 'trust'
   }
+  commonjsExports?: boolean
   coreModules?: string[]
+  cssModules?: CssModulesSettings | boolean
   docstyle?: DocStyle[]
   extensions?: readonly FileExtension[]
   externalModuleFolders?: string[]
+  externalTypes?: boolean
   ignore?: string[]
   internalRegex?: string
+  jsonNamedExports?: boolean
+  overrides?: SettingsOverride[]
   parsers?: Record<string, readonly FileExtension[]>
   resolve?: NodeResolverOptions
   resolver?: Arrayable<
-    | LiteralUnion<'node' | 'typescript' | 'webpack', string>
+    | LiteralUnion<'import-x' | 'node' | 'typescript' | 'webpack', string>
     | {
         node?: boolean | NodeResolverOptions
         typescript?: boolean | TsResolverOptions
         webpack?: WebpackResolverOptions
+        'import-x'?: boolean | ImportXResolverOptions
         [resolve: string]: unknown
       }
   >
 }
 
+/**
+ * Settings applying to the files matching `files` only, including the files
+ * analyzed while linting another file
+ */
+export interface SettingsOverride {
+  files: Arrayable<string>
+  excludedFiles?: Arrayable<string>
+  settings: PluginSettings
+}
+
 export type WithPluginName<T extends string | object> = T extends string
   ? `${PluginName}/${KebabCase<T>}`
   : {
@@ -61,14 +121,29 @@ export interface PluginConfig extends TSESLint.Linter.Config {
   rules?: Record<`${PluginName}/${string}`, TSESLint.Linter.RuleEntry>
 }
 
+export interface PluginLanguageOptions {
+  ecmaVersion?: TSESLint.ParserOptions['ecmaVersion']
+  sourceType?: TSESLint.ParserOptions['sourceType']
+  parser?: TSESLint.Linter.ParserModule
+  parserOptions?: TSESLint.ParserOptions
+}
+
+/**
+ * The `eslint.config.js` counterpart of {@link PluginConfig}
+ */
+export interface PluginFlatConfig {
+  name?: string
+  plugins?: Record<PluginName, TSESLint.Linter.Plugin>
+  languageOptions?: PluginLanguageOptions
+  settings?: PluginSettings
+  rules?: PluginConfig['rules']
+}
+
 export interface RuleContext<
   TMessageIds extends string = string,
   TOptions extends readonly unknown[] = readonly unknown[],
 > extends Omit<TSESLint.RuleContext<TMessageIds, TOptions>, 'settings'> {
-  languageOptions?: {
-    parser?: TSESLint.Linter.ParserModule
-    parserOptions?: TSESLint.ParserOptions
-  }
+  languageOptions?: PluginLanguageOptions
   settings: PluginSettings
 }
 
@@ -77,6 +152,7 @@ export interface ChildContext {
   settings: PluginSettings
   parserPath?: string | null
   parserOptions?: TSESLint.ParserOptions
+  languageOptions?: PluginLanguageOptions
   path: string
   filename?: string
 }
@@ -0,0 +1,286 @@
+import fs from 'fs'
+import path from 'path'
+
+import type { TSESTree } from '@typescript-eslint/utils'
+import debug from 'debug'
+import {
+  type TsConfigJsonResolved,
+  createFilesMatcher,
+  getTsconfig,
+  parseTsconfig,
+} from 'get-tsconfig'
+
+import type { PluginSettings } from '../types'
+
+import { isDeclarationFile } from './external-types'
+import { registerInvalidator } from './invalidate'
+import { listFiles } from './list-files'
+import { ModuleCache } from './module-cache'
+import { getDeclarationParserPath, parse } from './parse'
+
+const log = debug('eslint-plugin-import-x:utils:ambient-modules')
+
+/**
+ * A module declared with `declare module 'name'` in a declaration file, which
+ * TypeScript resolves without any file
+ */
+export interface AmbientModule {
+  /**
+   * the declared name, with at most one `*` wildcard, e.g. `*.svg`
+   */
+  name: string
+  /**
+   * the declaration file
+   */
+  path: string
+  /**
+   * the content of the declaration file with everything but the body of the
+   * declaration blanked out, so that locations are the same as in the file,
+   * `null` for shorthand declarations without a body, whose exports are
+   * unknown
+   */
+  code: string | null
+}
+
+interface AmbientModuleRegistry {
+  names: Map<string, AmbientModule>
+  patterns: AmbientModule[]
+  files: Set<string>
+}
+
+const declarationPattern = /\bdeclare\s+module\s*["']/
+
+const registryCache = new ModuleCache(new Map(), { name: 'ambientModules' })
+
+const tsconfigPaths = new Map<string, string | null>()
+
+registerInvalidator({
+  invalidate(paths) {
+    registryCache.deleteWhere(registry => {
+      for (const p of paths) {
+        if (
+          (registry as AmbientModuleRegistry).files.has(p) ||
+          // a created declaration file may declare more modules
+          isDeclarationFile(p) ||
+          path.basename(p).startsWith('tsconfig')
+        ) {
+          return true
+        }
+      }
+      return false
+    })
+    for (const p of paths) {
+      if (p.endsWith('.json')) {
+        tsconfigPaths.clear()
+        break
+      }
+    }
+  },
+  clear() {
+    registryCache.clear()
+    tsconfigPaths.clear()
+  },
+})
+
+function blank(text: string) {
+  return text.replace(/[^\n\r]/g, ' ')
+}
+
+function isModuleSyntax(node: TSESTree.ProgramStatement) {
+  return (
+    node.type === 'ImportDeclaration' ||
+    node.type === 'ExportAllDeclaration' ||
+    node.type === 'ExportDefaultDeclaration' ||
+    node.type === 'ExportNamedDeclaration' ||
+    node.type === 'TSExportAssignment' ||
+    node.type === 'TSImportEqualsDeclaration'
+  )
+}
+
+function findTsconfigPath(dir: string) {
+  let tsconfigPath = tsconfigPaths.get(dir)
+  if (tsconfigPath === undefined) {
+    tsconfigPath = getTsconfig(dir)?.path ?? null
+    tsconfigPaths.set(dir, tsconfigPath)
+  }
+  return tsconfigPath
+}
+
+/**
+ * @return the declaration files of the project of a `tsconfig.json`, from its
+ * `files`, `include` and `exclude`
+ */
+function listTsconfigFiles(tsconfigPath: string) {
+  let config: TsConfigJsonResolved
+  try {
+    config = parseTsconfig(tsconfigPath)
+  } catch (err) {
+    log('failed to read', tsconfigPath, err)
+    return []
+  }
+  const matcher = createFilesMatcher({ path: tsconfigPath, config })
+  const root = path.dirname(tsconfigPath)
+  return [
+    ...new Set([
+      ...(config.files || []).map(file => path.resolve(root, file)),
+      ...listFiles(root, ['**/*.d.{ts,cts,mts}']),
+    ]),
+  ].filter(file => isDeclarationFile(file) && matcher(file))
+}
+
+function collectAmbientModules(
+  filepath: string,
+  settings: PluginSettings,
+): AmbientModule[] {
+  let content: string
+  try {
+    content = fs.readFileSync(filepath, 'utf8').replace(/^\uFEFF/, '')
+  } catch {
+    return []
+  }
+  if (!declarationPattern.test(content)) {
+    return []
+  }
+
+  const parserPath = getDeclarationParserPath(filepath, settings)
+  if (parserPath == null) {
+    return []
+  }
+
+  let ast: TSESTree.Program
+  try {
+    ;({ ast } = parse(filepath, content, {
+      cacheKey: '',
+      settings,
+      parserPath,
+      path: filepath,
+    }))
+  } catch (err) {
+    log('failed to parse', filepath, err)
+    return []
+  }
+
+  // `declare module` augments existing modules in ES modules
+  if (ast.body.some(isModuleSyntax)) {
+    return []
+  }
+
+  const modules: AmbientModule[] = []
+  for (const node of ast.body) {
+    if (
+      node.type !== 'TSModuleDeclaration' ||
+      node.id.type !== 'Literal' ||
+      typeof node.id.value !== 'string'
+    ) {
+      continue
+    }
+    const { body } = node
+    const code =
+      body == null
+        ? null
+        : blank(content.slice(0, body.range[0] + 1)) +
+          content.slice(body.range[0] + 1, body.range[1] - 1) +
+          blank(content.slice(body.range[1] - 1))
+    modules.push({ name: node.id.value, path: filepath, code })
+  }
+  return modules
+}
+
+function buildRegistry(files: string[], settings: PluginSettings) {
+  const registry: AmbientModuleRegistry = {
+    names: new Map(),
+    patterns: [],
+    files: new Set(files),
+  }
+  for (const file of files) {
+    for (const ambientModule of collectAmbientModules(file, settings)) {
+      const { name } = ambientModule
+      if (name.includes('*')) {
+        registry.patterns.push(ambientModule)
+      } else if (!registry.names.has(name)) {
+        registry.names.set(name, ambientModule)
+      }
+    }
+  }
+  log(
+    'found ambient modules',
+    [...registry.names.keys(), ...registry.patterns.map(({ name }) => name)],
+    'in',
+    files,
+  )
+  return registry
+}
+
+function getRegistry(sourceFile: string, settings: PluginSettings) {
+  const setting = settings['import-x/ambient-modules']
+  if (!setting) {
+    return null
+  }
+
+  let cacheKey: string
+  let listDeclarationFiles: () => string[]
+  if (setting === true) {
+    const tsconfigPath = findTsconfigPath(
+      path.dirname(path.resolve(sourceFile)),
+    )
+    if (tsconfigPath == null) {
+      return null
+    }
+    cacheKey = tsconfigPath
+    listDeclarationFiles = () => listTsconfigFiles(tsconfigPath)
+  } else {
+    const cwd = process.cwd()
+    cacheKey = [cwd, ...setting].join('\0')
+    listDeclarationFiles = () => listFiles(cwd, setting)
+  }
+
+  const cacheSettings = ModuleCache.getSettings(settings)
+  let registry = registryCache.get<AmbientModuleRegistry>(
+    cacheKey,
+    cacheSettings,
+  )
+  if (registry === undefined) {
+    registry = buildRegistry(listDeclarationFiles(), settings)
+    registryCache.set(cacheKey, registry, cacheSettings)
+  }
+  return registry
+}
+
+/**
+ * Finds the ambient module declared for a specifier, from the declaration
+ * files listed by `import-x/ambient-modules`. Like TypeScript, exact names
+ * come first, then the pattern with the longest prefix.
+ *
+ * @param settings - the settings of the importing file
+ */
+export function findAmbientModule(
+  modulePath: string,
+  sourceFile: string,
+  settings: PluginSettings,
+) {
+  const registry = getRegistry(sourceFile, settings)
+  if (!registry) {
+    return
+  }
+
+  const exact = registry.names.get(modulePath)
+  if (exact) {
+    return exact
+  }
+
+  let found: AmbientModule | undefined
+  let foundPrefixLength = -1
+  for (const ambientModule of registry.patterns) {
+    const [prefix, suffix] = ambientModule.name.split('*')
+    if (
+      prefix.length > foundPrefixLength &&
+      modulePath.length >= prefix.length + suffix.length &&
+      modulePath.startsWith(prefix) &&
+      modulePath.endsWith(suffix)
+    ) {
+      found = ambientModule
+      foundPrefixLength = prefix.length
+    }
+  }
+  return found
+}
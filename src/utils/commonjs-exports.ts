@@ -0,0 +1,331 @@
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils'
+
+/**
+ * The exports of a CommonJS module, found from the same static patterns as
+ * `cjs-module-lexer`, which Node uses to expose them as named exports
+ */
+export interface CommonJsExports {
+  /**
+   * the named exports, with the nodes holding their docs
+   */
+  names: Map<string, TSESTree.Node[]>
+  /**
+   * the sources of `module.exports = require(...)` and of the star re-exports
+   * of transpilers
+   */
+  reexports: TSESTree.StringLiteral[]
+  /**
+   * marked as transpiled from an ES module, e.g. with
+   * `Object.defineProperty(exports, '__esModule', { value: true })`
+   */
+  esModule: boolean
+}
+
+type VisitorKeys = TSESLint.SourceCode.VisitorKeys
+
+const exportsPattern = /\bexports\b/
+
+// transpiler helpers re-exporting everything of a module, e.g.
+// `__exportStar(require('./foo'), exports)` of TypeScript
+const exportStarHelpers = new Set(['__exportStar', '__export'])
+
+function isIdentifier(node: TSESTree.Node | null | undefined, name: string) {
+  return node != null && node.type === 'Identifier' && node.name === name
+}
+
+function getPropertyName(node: TSESTree.MemberExpression | TSESTree.Property) {
+  const key = node.type === 'Property' ? node.key : node.property
+  if (!node.computed && key.type === 'Identifier') {
+    return key.name
+  }
+  if (key.type === 'Literal' && typeof key.value === 'string') {
+    return key.value
+  }
+}
+
+/**
+ * `module.exports`
+ */
+function isModuleExports(node: TSESTree.Node) {
+  return (
+    node.type === 'MemberExpression' &&
+    isIdentifier(node.object, 'module') &&
+    getPropertyName(node) === 'exports'
+  )
+}
+
+/**
+ * `exports` or `module.exports`
+ */
+function isExportsObject(node: TSESTree.Node) {
+  return isIdentifier(node, 'exports') || isModuleExports(node)
+}
+
+/**
+ * @return the source of `require('source')`
+ */
+function getRequireSource(node: TSESTree.Node | null | undefined) {
+  if (
+    node != null &&
+    node.type === 'CallExpression' &&
+    isIdentifier(node.callee, 'require') &&
+    node.arguments.length === 1 &&
+    node.arguments[0].type === 'Literal' &&
+    typeof node.arguments[0].value === 'string'
+  ) {
+    return node.arguments[0] as TSESTree.StringLiteral
+  }
+}
+
+/**
+ * @return the source of `require('source')`, possibly wrapped by an interop
+ * helper, e.g. `_interopRequireWildcard(require('source'))` of Babel
+ */
+function getWrappedRequireSource(node: TSESTree.Node | null | undefined) {
+  return (
+    getRequireSource(node) ||
+    (node?.type === 'CallExpression' && node.arguments.length > 0
+      ? getRequireSource(node.arguments[0])
+      : undefined)
+  )
+}
+
+/**
+ * detect possible CommonJS exports without a full parse, like
+ * `isMaybeUnambiguousModule`
+ */
+export function isMaybeCommonJsModule(content: string) {
+  return exportsPattern.test(content)
+}
+
+/**
+ * @return `null` for modules not using `exports`, or when their exports can not
+ * be known statically, e.g. `module.exports = createApi()`
+ */
+export function findCommonJsExports(
+  ast: TSESTree.Program,
+  visitorKeys: VisitorKeys,
+): CommonJsExports | null {
+  const result: CommonJsExports = {
+    names: new Map(),
+    reexports: [],
+    esModule: false,
+  }
+  let found = false
+  // the exports are used in a way that can not be followed
+  let unknown = false
+  const requires = new Map<string, TSESTree.StringLiteral>()
+
+  function addName(name: string, ...nodes: TSESTree.Node[]) {
+    found = true
+    if (name === '__esModule') {
+      result.esModule = true
+    } else {
+      result.names.set(name, nodes)
+    }
+  }
+
+  function addReexport(source: TSESTree.StringLiteral) {
+    found = true
+    result.reexports.push(source)
+  }
+
+  function assignModuleExports(value: TSESTree.Node) {
+    found = true
+    const source = getRequireSource(value)
+    if (source) {
+      addReexport(source)
+      return
+    }
+
+    switch (value.type) {
+      case 'ObjectExpression': {
+        for (const property of value.properties) {
+          if (property.type === 'SpreadElement') {
+            const spread = getRequireSource(property.argument)
+            if (!spread) {
+              unknown = true
+              return
+            }
+            addReexport(spread)
+            continue
+          }
+          const name = getPropertyName(property)
+          if (name == null) {
+            unknown = true
+            return
+          }
+          addName(name, property)
+          walk(property.value)
+        }
+        return
+      }
+      // no named exports, but the ones assigned later on
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+      case 'ClassExpression':
+      case 'Literal': {
+        walk(value)
+        return
+      }
+      default: {
+        unknown = true
+      }
+    }
+  }
+
+  /**
+   * @return whether the node was a known pattern
+   */
+  function matchPattern(node: TSESTree.Node, parent?: TSESTree.Node) {
+    if (node.type === 'AssignmentExpression' && node.operator === '=') {
+      const { left, right } = node
+      if (isModuleExports(left)) {
+        assignModuleExports(right)
+        return true
+      }
+      // `exports.foo = ...` and `module.exports.foo = ...`
+      if (left.type === 'MemberExpression' && isExportsObject(left.object)) {
+        const name = getPropertyName(left)
+        if (name == null) {
+          unknown = true
+          return true
+        }
+        addName(
+          name,
+          ...(parent?.type === 'ExpressionStatement' ? [parent] : []),
+          node,
+        )
+        walk(right)
+        return true
+      }
+      return false
+    }
+
+    if (node.type === 'VariableDeclarator') {
+      const source = getWrappedRequireSource(node.init)
+      if (source && node.id.type === 'Identifier') {
+        requires.set(node.id.name, source)
+      }
+      return false
+    }
+
+    if (node.type !== 'CallExpression') {
+      return false
+    }
+
+    const { callee } = node
+    const [target, name, descriptor] = node.arguments
+
+    // `Object.defineProperty(exports, 'foo', { ... })`
+    if (
+      callee.type === 'MemberExpression' &&
+      isIdentifier(callee.object, 'Object') &&
+      getPropertyName(callee) === 'defineProperty' &&
+      target != null &&
+      isExportsObject(target)
+    ) {
+      if (name?.type !== 'Literal' || typeof name.value !== 'string') {
+        unknown = true
+        return true
+      }
+      addName(
+        name.value,
+        ...(parent?.type === 'ExpressionStatement' ? [parent] : []),
+      )
+      if (descriptor) {
+        walk(descriptor)
+      }
+      return true
+    }
+
+    // `__exportStar(require('./foo'), exports)` or `tslib.__exportStar(...)`
+    const helper =
+      callee.type === 'MemberExpression'
+        ? getPropertyName(callee)
+        : callee.type === 'Identifier'
+          ? callee.name
+          : undefined
+    if (helper != null && exportStarHelpers.has(helper)) {
+      const source =
+        getRequireSource(target) ||
+        (target?.type === 'Identifier' ? requires.get(target.name) : undefined)
+      if (source) {
+        addReexport(source)
+        return true
+      }
+    }
+
+    // `Object.keys(_foo).forEach(function (key) { ... exports[key] = ... })` of
+    // Babel, with `var _foo = require('./foo')`
+    if (
+      callee.type === 'MemberExpression' &&
+      getPropertyName(callee) === 'forEach' &&
+      callee.object.type === 'CallExpression' &&
+      callee.object.callee.type === 'MemberExpression' &&
+      isIdentifier(callee.object.callee.object, 'Object') &&
+      getPropertyName(callee.object.callee) === 'keys'
+    ) {
+      const [object] = callee.object.arguments
+      const source =
+        object?.type === 'Identifier' ? requires.get(object.name) : undefined
+      if (source) {
+        addReexport(source)
+        return true
+      }
+    }
+
+    return false
+  }
+
+  function walk(node: TSESTree.Node, parent?: TSESTree.Node) {
+    if (unknown || matchPattern(node, parent)) {
+      return
+    }
+
+    if (isIdentifier(node, 'exports') || isModuleExports(node)) {
+      // any other use of the exports, e.g. `Object.assign(exports, api)`
+      unknown = true
+      return
+    }
+
+    // functions with an `exports` parameter, e.g. the helpers of TypeScript
+    if (
+      (node.type === 'FunctionDeclaration' ||
+        node.type === 'FunctionExpression' ||
+        node.type === 'ArrowFunctionExpression') &&
+      node.params.some(param => isIdentifier(param, 'exports'))
+    ) {
+      return
+    }
+
+    // reading `exports.foo` is fine
+    if (node.type === 'MemberExpression' && isExportsObject(node.object)) {
+      return
+    }
+
+    for (const key of visitorKeys[node.type] || []) {
+      // the names of properties are not references
+      if (
+        !('computed' in node && node.computed) &&
+        ((key === 'property' && node.type === 'MemberExpression') ||
+          (key === 'key' &&
+            (node.type === 'Property' ||
+              node.type === 'MethodDefinition' ||
+              node.type === 'PropertyDefinition')))
+      ) {
+        continue
+      }
+      const value = (node as unknown as Record<string, unknown>)[key]
+      for (const child of [value].flat()) {
+        if (child != null && typeof child === 'object' && 'type' in child) {
+          walk(child as TSESTree.Node, node)
+        }
+      }
+    }
+  }
+
+  walk(ast)
+
+  return found && !unknown ? result : null
+}
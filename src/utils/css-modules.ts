@@ -0,0 +1,197 @@
+import { extname } from 'path'
+
+import type { CssModulesSettings } from '../types'
+
+const cssModulePattern = /\.module\.(?:css|scss|less)$/i
+
+const strippedPattern =
+  /("(?:[^\n"\\]|\\.)*"|'(?:[^\n'\\]|\\.)*')|\/\*[\S\s]*?\*\/|url\([^)]*\)/gi
+
+// `//` comments of Sass and Less, but not protocol-relative URLs
+const lineCommentPattern = /(^|[\s;{}])\/\/[^\n]*/g
+
+// rules generating class names that the stylesheet does not list itself
+const generatedPattern =
+  /@(?:import|use|forward|include|each|for|while)\b|#{|@{/
+
+// Less mixin calls, e.g. `.bordered();`
+const lessMixinCallPattern = /\.-?[A-Z_a-z][\w-]*\s*(?:\([^)]*\))?\s*;/
+
+// but not Less mixin definitions, e.g. `.bordered() {`
+const classPattern = /\.(-?[A-Z_a-z][\w-]*)(?![\w-]|\s*\()/g
+
+const keyframesPattern = /^@(?:-\w+-)?keyframes\s+(-?[A-Z_a-z][\w-]*)/
+
+const valuePattern = /@value\s+([^;]+);/g
+
+interface Block {
+  /**
+   * the selectors of the rule, with the `&` of nested rules replaced
+   */
+  selectors: string[]
+  global: boolean
+  /**
+   * ICSS `:export` block, its properties are exports
+   */
+  exports: boolean
+}
+
+/**
+ * Stylesheets loaded as CSS Modules, whose class names are the exports
+ */
+export function isCssModule(path: string) {
+  return cssModulePattern.test(path)
+}
+
+function camelCase(name: string) {
+  return name.replace(/[_-]+(\w)/g, (_, char: string) => char.toUpperCase())
+}
+
+function dashesCamelCase(name: string) {
+  return name.replace(/-+(\w)/g, (_, char: string) => char.toUpperCase())
+}
+
+function convertName(
+  name: string,
+  convention: CssModulesSettings['localsConvention'],
+) {
+  switch (convention) {
+    case 'camelCase': {
+      return [name, camelCase(name)]
+    }
+    case 'camelCaseOnly': {
+      return [camelCase(name)]
+    }
+    case 'dashes': {
+      return [name, dashesCamelCase(name)]
+    }
+    case 'dashesOnly': {
+      return [dashesCamelCase(name)]
+    }
+    default: {
+      return [name]
+    }
+  }
+}
+
+function resolveSelectors(prelude: string, parents: string[]) {
+  const selectors = prelude.split(',').map(selector => selector.trim())
+  return selectors.flatMap(selector =>
+    selector.includes('&')
+      ? parents.map(parent => selector.replaceAll('&', parent))
+      : parents.map(parent => (parent ? `${parent} ${selector}` : selector)),
+  )
+}
+
+function localClassNames(selector: string) {
+  const local = selector
+    .replaceAll(/:global\([^)]*\)/g, '')
+    // `:global .a .b` makes the rest of the selector global
+    .replace(/:global(?![\w(-])[\S\s]*/, '')
+  return [...local.matchAll(classPattern)].map(match => match[1])
+}
+
+/**
+ * The class names, keyframes and values exported by a CSS Module, found with a
+ * lightweight scan of the stylesheet rather than a full parse.
+ *
+ * @return `null` when the stylesheet generates class names, e.g. with mixins
+ * or imports, so that its exports can not be listed
+ */
+export function extractCssModuleNames(
+  path: string,
+  content: string,
+  convention?: CssModulesSettings['localsConvention'],
+): string[] | null {
+  const extension = extname(path).toLowerCase()
+
+  let code = content.replaceAll(strippedPattern, (_, string?: string) =>
+    string ? '""' : ' ',
+  )
+  if (extension !== '.css') {
+    code = code.replaceAll(lineCommentPattern, '$1')
+  }
+
+  if (
+    generatedPattern.test(code) ||
+    (extension === '.less' && lessMixinCallPattern.test(code))
+  ) {
+    return null
+  }
+
+  const names = new Set<string>()
+
+  for (const [, value] of code.matchAll(valuePattern)) {
+    const [imported, from] = value.split(/\sfrom\s/)
+    if (from == null) {
+      names.add(/^[\w-]+/.exec(imported.trim())![0])
+      continue
+    }
+    for (const specifier of imported.split(',')) {
+      names.add(
+        specifier
+          .trim()
+          .split(/\s+as\s+/)
+          .pop()!,
+      )
+    }
+  }
+  code = code.replaceAll(valuePattern, ';')
+
+  const stack: Block[] = [{ selectors: [''], global: false, exports: false }]
+  let start = 0
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i]
+    if (char !== '{' && char !== ';' && char !== '}') {
+      continue
+    }
+
+    const segment = code.slice(start, i).trim()
+    start = i + 1
+    const block = stack[stack.length - 1]
+
+    if (char !== '{') {
+      if (block.exports) {
+        const property = /^([\w-]+)\s*:/.exec(segment)
+        if (property) {
+          names.add(property[1])
+        }
+      }
+      if (char === '}' && stack.length > 1) {
+        stack.pop()
+      }
+      continue
+    }
+
+    if (segment.startsWith('@')) {
+      const keyframes = keyframesPattern.exec(segment)
+      if (keyframes && !block.global) {
+        names.add(keyframes[1])
+      }
+      // `@media` and the like keep the selectors of the enclosing rule
+      stack.push({ ...block, exports: false })
+      continue
+    }
+
+    if (segment === ':export') {
+      stack.push({ selectors: block.selectors, global: false, exports: true })
+      continue
+    }
+
+    if (segment === ':global' || block.global) {
+      stack.push({ selectors: block.selectors, global: true, exports: false })
+      continue
+    }
+
+    const selectors = resolveSelectors(segment, block.selectors)
+    for (const selector of selectors) {
+      for (const name of localClassNames(selector)) {
+        names.add(name)
+      }
+    }
+    stack.push({ selectors, global: false, exports: false })
+  }
+
+  return [...new Set([...names].flatMap(name => convertName(name, convention)))]
+}
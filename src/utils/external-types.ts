@@ -0,0 +1,213 @@
+import fs from 'fs'
+import path from 'path'
+
+import type { PackageJson } from 'type-fest'
+
+import { registerInvalidator } from './invalidate'
+import { resolvePackageExports } from './package-exports'
+
+const declarationFilePattern = /\.d\.[cm]?ts$/
+
+const typeScriptPattern = /\.[cm]?tsx?$/
+
+const runtimeConditions = new Set(['import', 'require', 'node'])
+
+const typesConditions = new Set(['types', ...runtimeConditions])
+
+const typesPaths = new Map<string, string | null>()
+
+const packageJsons = new Map<string, PackageJson | null>()
+
+registerInvalidator({
+  invalidate(paths) {
+    for (const p of paths) {
+      if (path.basename(p) === 'package.json') {
+        typesPaths.clear()
+        packageJsons.clear()
+        return
+      }
+    }
+  },
+  clear() {
+    typesPaths.clear()
+    packageJsons.clear()
+  },
+})
+
+interface Package {
+  root: string
+  name: string
+  /**
+   * the `node_modules` folder of the package
+   */
+  folder: string
+}
+
+function readPackageJson(root: string) {
+  let pkg = packageJsons.get(root)
+  if (pkg === undefined) {
+    try {
+      pkg = JSON.parse(
+        fs.readFileSync(path.join(root, 'package.json'), 'utf8'),
+      ) as PackageJson
+    } catch {
+      pkg = null
+    }
+    packageJsons.set(root, pkg)
+  }
+  return pkg
+}
+
+function isFile(filepath: string) {
+  try {
+    return fs.statSync(filepath).isFile()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * @return the package installed in the innermost `node_modules` folder of the
+ * path
+ */
+function findPackage(filepath: string): Package | null {
+  const segments = filepath.split(/[/\\]/)
+  const index = segments.lastIndexOf('node_modules')
+  if (index === -1 || index + 1 >= segments.length - 1) {
+    return null
+  }
+  const nameLength = segments[index + 1].startsWith('@') ? 2 : 1
+  const folder = segments.slice(0, index + 1).join(path.sep)
+  const name = segments.slice(index + 1, index + 1 + nameLength).join('/')
+  return { root: path.join(folder, name), name, folder }
+}
+
+function toSubpath(root: string, filepath: string) {
+  return './' + path.relative(root, filepath).split(path.sep).join('/')
+}
+
+function withoutExtension(subpath: string) {
+  return subpath.replace(/\.[cm]?jsx?$/, '').replace(/\/index$/, '')
+}
+
+/**
+ * @return the subpaths of `exports`, but patterns
+ */
+function exportedSubpaths(exports: unknown) {
+  if (
+    exports == null ||
+    typeof exports !== 'object' ||
+    Array.isArray(exports)
+  ) {
+    return ['.']
+  }
+  const keys = Object.keys(exports)
+  return keys.some(key => key.startsWith('.'))
+    ? keys.filter(key => key.startsWith('.') && !key.includes('*'))
+    : ['.']
+}
+
+/**
+ * @return the declaration file of the entry point of a package, from `types`,
+ * `typings` or the `types` condition of its `exports`
+ */
+function entryTypes(root: string, pkg: PackageJson) {
+  const target =
+    (pkg.exports != null &&
+      resolvePackageExports(pkg.exports, '.', typesConditions)) ||
+    pkg.types ||
+    pkg.typings ||
+    'index.d.ts'
+  return path.join(root, target)
+}
+
+function findTypes(filepath: string) {
+  const found = findPackage(filepath)
+  if (!found) {
+    return null
+  }
+
+  // sibling declaration files, e.g. `index.d.ts` for `index.js`
+  const sibling = filepath.replace(/\.([cm]?)jsx?$/, '.d.$1ts')
+  if (sibling !== filepath && isFile(sibling)) {
+    return sibling
+  }
+
+  const { root, name, folder } = found
+  const subpath = toSubpath(root, filepath)
+  const pkg = readPackageJson(root)
+  const isMain =
+    pkg != null &&
+    withoutExtension(subpath) ===
+      withoutExtension(toSubpath(root, path.join(root, pkg.main || 'index.js')))
+
+  if (pkg?.exports != null) {
+    // the `types` condition next to the target of the path
+    for (const exported of exportedSubpaths(pkg.exports)) {
+      if (
+        resolvePackageExports(pkg.exports, exported, runtimeConditions) !==
+        subpath
+      ) {
+        continue
+      }
+      const types = resolvePackageExports(
+        pkg.exports,
+        exported,
+        typesConditions,
+      )
+      if (types && declarationFilePattern.test(types)) {
+        return path.join(root, types)
+      }
+    }
+  }
+
+  if (isMain) {
+    const types = entryTypes(root, pkg)
+    if (declarationFilePattern.test(types) && isFile(types)) {
+      return types
+    }
+  }
+
+  // DefinitelyTyped, e.g. `@types/babel__core` for `@babel/core`
+  if (name.startsWith('@types/')) {
+    return null
+  }
+  const typesRoot = path.join(
+    folder,
+    '@types',
+    name.replace(/^@([^/]+)\//, '$1__'),
+  )
+  const typesPkg = readPackageJson(typesRoot)
+  if (!typesPkg) {
+    return null
+  }
+  const candidates = isMain
+    ? [entryTypes(typesRoot, typesPkg)]
+    : [
+        path.join(typesRoot, `${withoutExtension(subpath)}.d.ts`),
+        path.join(typesRoot, withoutExtension(subpath), 'index.d.ts'),
+      ]
+  return candidates.find(isFile) ?? null
+}
+
+export function isDeclarationFile(filepath: string) {
+  return declarationFilePattern.test(filepath)
+}
+
+/**
+ * Finds the declaration file describing a module installed in `node_modules`,
+ * whose exports are often unknown from its JavaScript, e.g. CommonJS builds.
+ *
+ * @return `null` for other modules, or without declaration files
+ */
+export function resolveExternalTypes(filepath: string) {
+  if (typeScriptPattern.test(filepath)) {
+    return null
+  }
+  let types = typesPaths.get(filepath)
+  if (types === undefined) {
+    types = findTypes(filepath)
+    typesPaths.set(filepath, types)
+  }
+  return types
+}
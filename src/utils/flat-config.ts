@@ -0,0 +1,50 @@
+import type { TSESLint } from '@typescript-eslint/utils'
+
+import type { PluginConfig, PluginFlatConfig } from '../types'
+
+import { pluginName } from './constants'
+
+/**
+ * Derive the flat config shape from an eslintrc-style config, so every preset
+ * in `src/config` is only declared once.
+ *
+ * Flat configs reference plugins by object instead of by name, and move the
+ * parser related options under `languageOptions`.
+ */
+export function toFlatConfig(
+  name: string,
+  config: PluginConfig,
+  plugin: TSESLint.Linter.Plugin,
+): PluginFlatConfig {
+  const flatConfig: PluginFlatConfig = {
+    name: `${pluginName}/${name}`,
+    plugins: {
+      [pluginName]: plugin,
+    },
+  }
+
+  if (config.parserOptions) {
+    const { ecmaVersion, sourceType, ...parserOptions } = config.parserOptions
+    const languageOptions: PluginFlatConfig['languageOptions'] = {}
+    if (ecmaVersion != null) {
+      languageOptions.ecmaVersion = ecmaVersion
+    }
+    if (sourceType != null) {
+      languageOptions.sourceType = sourceType
+    }
+    if (Object.keys(parserOptions).length > 0) {
+      languageOptions.parserOptions = parserOptions
+    }
+    flatConfig.languageOptions = languageOptions
+  }
+
+  if (config.settings) {
+    flatConfig.settings = config.settings
+  }
+
+  if (config.rules) {
+    flatConfig.rules = config.rules
+  }
+
+  return flatConfig
+}
@@ -1,6 +1,7 @@
-import { extname } from 'path'
+import path, { extname } from 'path'
 
 import debug from 'debug'
+import { Minimatch } from 'minimatch'
 
 import type {
   ChildContext,
@@ -9,19 +10,22 @@ import type {
   RuleContext,
 } from '../types'
 
+import { getFileSettings } from './overrides'
+import { pkgDir } from './pkg-dir'
+
 const log = debug('eslint-plugin-import-x:utils:ignore')
 
 // one-shot memoized
 let cachedSet: Set<FileExtension>
 let lastSettings: PluginSettings
 
-function validExtensions(context: ChildContext | RuleContext) {
-  if (cachedSet && context.settings === lastSettings) {
+function validExtensions(settings: PluginSettings) {
+  if (cachedSet && settings === lastSettings) {
     return cachedSet
   }
 
-  lastSettings = context.settings
-  cachedSet = getFileExtensions(context.settings)
+  lastSettings = settings
+  cachedSet = getFileExtensions(settings)
   return cachedSet
 }
 
@@ -51,26 +55,119 @@ export function ignore(path: string, context: ChildContext | RuleContext) {
     return true
   }
 
-  const ignoreStrings = context.settings['import-x/ignore']
+  return matchesIgnorePattern(path, context)
+}
+
+/**
+ * the prefix of the globs of `import-x/ignore`, its other patterns are regexes
+ */
+const GLOB_PREFIX = 'glob:'
 
-  if (!ignoreStrings?.length) {
-    return false
-  }
+/**
+ * {@link ignore} without the extension check, for the files analyzed whatever
+ * their extension, like JSON modules
+ */
+export function matchesIgnorePattern(
+  path: string,
+  context: ChildContext | RuleContext,
+) {
+  const ignoreStrings = getFileSettings(path, context.settings)[
+    'import-x/ignore'
+  ]
+
+  // the last matching pattern wins, so that negated globs can re-include paths
+  // ignored by the previous patterns
+  let ignored = false
+  for (const pattern of ignoreStrings || []) {
+    if (!pattern.startsWith(GLOB_PREFIX)) {
+      if (!ignored && getRegexMatcher(pattern)(path)) {
+        log(`ignoring ${path}, matched pattern ${pattern}`)
+        ignored = true
+      }
+      continue
+    }
 
-  for (let i = 0; i < ignoreStrings.length; i++) {
-    const regex = new RegExp(ignoreStrings[i])
-    if (regex.test(path)) {
-      log(`ignoring ${path}, matched pattern /${ignoreStrings[i]}/`)
-      return true
+    const glob = pattern.slice(GLOB_PREFIX.length)
+    const negated = glob.startsWith('!')
+    if (ignored !== negated) {
+      continue
+    }
+    if (getGlobMatcher(glob.replace(/^!/, ''), path)(path)) {
+      log(
+        negated
+          ? `including ${path}, matched glob ${glob}`
+          : `ignoring ${path}, matched glob ${glob}`,
+      )
+      ignored = !negated
     }
   }
 
-  return false
+  return ignored
+}
+
+const regexMatchers = new Map<string, (path: string) => boolean>()
+
+function getRegexMatcher(pattern: string) {
+  let matcher = regexMatchers.get(pattern)
+  if (!matcher) {
+    const regex = new RegExp(pattern)
+    matcher = path => regex.test(path)
+    regexMatchers.set(pattern, matcher)
+  }
+  return matcher
+}
+
+const globMatchers = new Map<string, (path: string) => boolean>()
+
+function getGlobMatcher(glob: string, filepath: string) {
+  const root = path.isAbsolute(glob) ? '' : getPackageRoot(filepath)
+  const key = `${root}\0${glob}`
+  let matcher = globMatchers.get(key)
+  if (!matcher) {
+    // globs only separate segments with `/`, where `\` escapes
+    const minimatch = new Minimatch(
+      root ? `${toPosixPath(root)}/${glob}` : glob,
+      { dot: true },
+    )
+    matcher = path => minimatch.match(toPosixPath(path))
+    globMatchers.set(key, matcher)
+  }
+  return matcher
+}
+
+function toPosixPath(filepath: string) {
+  return path.sep === '/' ? filepath : filepath.split(path.sep).join('/')
+}
+
+const packageRoots = new Map<string, string>()
+
+/**
+ * @return the nearest package root of a file, outside of any `node_modules`
+ * so that installed dependencies can be matched from the project
+ */
+function getPackageRoot(filepath: string) {
+  const resolved = path.resolve(filepath)
+  const nodeModulesIndex = resolved.indexOf(
+    `${path.sep}node_modules${path.sep}`,
+  )
+  const dir =
+    nodeModulesIndex === -1
+      ? path.dirname(resolved)
+      : resolved.slice(0, nodeModulesIndex)
+
+  let root = packageRoots.get(dir)
+  if (root == null) {
+    root = pkgDir(dir) || process.cwd()
+    packageRoots.set(dir, root)
+  }
+  return root
 }
 
 export function hasValidExtension(
   path: string,
   context: ChildContext | RuleContext,
 ): path is `${string}${FileExtension}` {
-  return validExtensions(context).has(extname(path) as FileExtension)
+  return validExtensions(getFileSettings(path, context.settings)).has(
+    extname(path) as FileExtension,
+  )
 }
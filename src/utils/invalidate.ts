@@ -0,0 +1,51 @@
+import path from 'path'
+
+export interface Invalidator {
+  /**
+   * drop the entries depending on the given absolute paths
+   */
+  invalidate(paths: ReadonlySet<string>): void
+  /**
+   * drop everything
+   */
+  clear(): void
+}
+
+const invalidators = new Set<Invalidator>()
+
+/**
+ * Modules holding caches register here, so that they can stay private.
+ */
+export function registerInvalidator(invalidator: Invalidator) {
+  invalidators.add(invalidator)
+}
+
+/**
+ * Tell the plugin that files were changed, created or deleted, for long-lived
+ * processes like editor integrations and watch modes.
+ *
+ * @param paths - relative paths are resolved against the current working
+ * directory
+ */
+export function invalidate(paths: string | Iterable<string>) {
+  const resolvedPaths = new Set(
+    Array.from(typeof paths === 'string' ? [paths] : paths, p =>
+      path.resolve(p),
+    ),
+  )
+  if (resolvedPaths.size === 0) {
+    return
+  }
+  for (const invalidator of invalidators) {
+    invalidator.invalidate(resolvedPaths)
+  }
+}
+
+/**
+ * Drop every cache, like restarting the process would.
+ */
+export function clearCaches() {
+  for (const invalidator of invalidators) {
+    invalidator.clear()
+  }
+}
@@ -0,0 +1,178 @@
+import fs from 'fs'
+import path from 'path'
+
+import ignore, { type Ignore } from 'ignore'
+import { Minimatch } from 'minimatch'
+
+function isGlob(pattern: string) {
+  const matcher = new Minimatch(pattern)
+  // braces expand to several patterns without any magic
+  return matcher.hasMagic() || matcher.set.length > 1
+}
+
+function toMatchers(patterns: readonly string[], dot = true) {
+  return patterns.map(pattern => new Minimatch(pattern, { dot }))
+}
+
+/**
+ * Lists the files under a directory matching globs, like the `include` and
+ * `exclude` of a `tsconfig.json`. `node_modules` is never walked, and hidden
+ * folders only when a glob names them, e.g. `.storybook/*.ts`.
+ *
+ * @param include - globs relative to `root`
+ * @param exclude - globs relative to `root`, excluding the matched files and
+ * everything in the matched folders
+ * @return absolute paths, sorted
+ */
+export function listFiles(
+  root: string,
+  include: readonly string[],
+  exclude: readonly string[] = [],
+) {
+  const includeMatchers = toMatchers(include)
+  // `*` and `**` do not match hidden folders without `dot`
+  const hiddenMatchers = toMatchers(include, false)
+  const excludeMatchers = toMatchers(exclude)
+  const files: string[] = []
+
+  function isExcluded(relativePath: string) {
+    return excludeMatchers.some(matcher => matcher.match(relativePath))
+  }
+
+  function walk(dir: string) {
+    let entries: fs.Dirent[]
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true })
+    } catch {
+      return
+    }
+    for (const entry of entries) {
+      const filepath = path.join(dir, entry.name)
+      const relativePath = path
+        .relative(root, filepath)
+        .split(path.sep)
+        .join('/')
+      if (isExcluded(relativePath)) {
+        continue
+      }
+      if (entry.isDirectory()) {
+        if (
+          entry.name !== 'node_modules' &&
+          // folders which the files may be in
+          (entry.name.startsWith('.') ? hiddenMatchers : includeMatchers).some(
+            matcher => matcher.match(relativePath, true),
+          )
+        ) {
+          walk(filepath)
+        }
+      } else if (
+        entry.isFile() &&
+        includeMatchers.some(matcher => matcher.match(relativePath))
+      ) {
+        files.push(filepath)
+      }
+    }
+  }
+
+  walk(root)
+
+  return files.sort()
+}
+
+/**
+ * the files ignored by the `.gitignore` and `.eslintignore` of a folder
+ */
+function readIgnoreFiles(cwd: string) {
+  const ig = ignore()
+  for (const name of ['.gitignore', '.eslintignore']) {
+    try {
+      ig.add(fs.readFileSync(path.join(cwd, name), 'utf8'))
+    } catch {
+      // no ignore file
+    }
+  }
+  return ig
+}
+
+function isIgnored(ig: Ignore, cwd: string, filepath: string) {
+  const relativePath = path.relative(cwd, filepath)
+  // the paths outside of `cwd` can not be matched
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return false
+  }
+  return ig.ignores(relativePath.split(path.sep).join('/'))
+}
+
+/**
+ * @return the folder of a glob before its first magic segment, and the rest
+ * of the glob relative to it, e.g. `src/lib` and `*.js` for `src/lib/*.js`
+ */
+function splitGlob(pattern: string) {
+  const segments = pattern.split('/')
+  // braces may span several segments
+  const index = segments.findIndex(
+    segment => isGlob(segment) || segment.includes('{'),
+  )
+  if (index <= 0) {
+    return { base: '.', glob: pattern }
+  }
+  return {
+    base: segments.slice(0, index).join('/') || '/',
+    glob: segments.slice(index).join('/'),
+  }
+}
+
+/**
+ * Lists the files to lint for patterns like the ones of the ESLint CLI: files,
+ * folders to walk for the files with `extensions`, and globs, relative to
+ * `cwd`. Like ESLint, the files of the `.gitignore` and `.eslintignore` of
+ * `cwd`, dotfiles and `node_modules` are skipped unless listed explicitly.
+ *
+ * @return absolute paths
+ */
+export function listFilesToProcess(
+  patterns: readonly string[],
+  extensions: readonly string[],
+  cwd = process.cwd(),
+) {
+  const ig = readIgnoreFiles(cwd)
+  const files = new Set<string>()
+
+  function addWalkedFiles(root: string, include: readonly string[]) {
+    for (const file of listFiles(root, include)) {
+      if (
+        extensions.includes(path.extname(file)) &&
+        !path.basename(file).startsWith('.') &&
+        !isIgnored(ig, cwd, file)
+      ) {
+        files.add(file)
+      }
+    }
+  }
+
+  for (const pattern of patterns) {
+    if (isGlob(pattern)) {
+      const { base, glob } = splitGlob(pattern.split(path.sep).join('/'))
+      addWalkedFiles(path.resolve(cwd, base), [glob])
+      continue
+    }
+
+    const filepath = path.resolve(cwd, pattern)
+    let stats: fs.Stats
+    try {
+      stats = fs.statSync(filepath)
+    } catch {
+      continue
+    }
+    if (stats.isDirectory()) {
+      addWalkedFiles(
+        filepath,
+        extensions.map(extension => `**/*${extension}`),
+      )
+    } else if (stats.isFile()) {
+      files.add(filepath)
+    }
+  }
+
+  return [...files]
+}
@@ -6,55 +6,148 @@ const log = debug('eslint-plugin-import-x:utils:ModuleCache')
 
 export type CacheKey = unknown
 
+export type CacheSettings = NonNullable<ImportSettings['cache']>
+
 export type CacheObject = {
   result: unknown
   lastSeen: ReturnType<typeof process.hrtime>
 }
 
+export interface CacheStats {
+  size: number
+  hits: number
+  misses: number
+  evictions: number
+}
+
+/**
+ * named caches, whose statistics are reported by `getCacheStats`
+ */
+const registry = new Map<string, ModuleCache>()
+
 export class ModuleCache {
-  constructor(public map: Map<CacheKey, CacheObject> = new Map()) {}
+  stats: Omit<CacheStats, 'size'> = { hits: 0, misses: 0, evictions: 0 }
+
+  /**
+   * @param options.name - reports the statistics of the cache under this name
+   */
+  constructor(
+    public map: Map<CacheKey, CacheObject> = new Map(),
+    options: { name?: string } = {},
+  ) {
+    if (options.name) {
+      registry.set(options.name, this)
+    }
+  }
 
-  set(cacheKey: CacheKey, result: unknown) {
+  /**
+   * @param settings - the least recently used entries are evicted beyond
+   * `settings.maxEntries`
+   */
+  set(
+    cacheKey: CacheKey,
+    result: unknown,
+    settings?: Pick<CacheSettings, 'maxEntries'>,
+  ) {
+    // re-inserting moves the entry to the most recently used end
+    this.map.delete(cacheKey)
     this.map.set(cacheKey, {
       result,
       lastSeen: process.hrtime(),
     })
     log('setting entry for', cacheKey)
+
+    const maxEntries = settings?.maxEntries
+    if (maxEntries != null) {
+      // maps iterate in insertion order, least recently used first
+      for (const key of this.map.keys()) {
+        if (this.map.size <= maxEntries) {
+          break
+        }
+        log('evicting entry for', key)
+        this.map.delete(key)
+        this.stats.evictions++
+      }
+    }
+
     return result
   }
 
   get<T>(cacheKey: CacheKey, settings: ImportSettings['cache']): T | undefined {
     if (this.map.has(cacheKey)) {
-      const f = this.map.get(cacheKey)
+      const f = this.map.get(cacheKey)!
       // check freshness
-      // @ts-expect-error TS can't narrow properly from `has` and `get`
+      // @ts-expect-error - lifetime is parsed by `getSettings`
       if (process.hrtime(f.lastSeen)[0] < settings.lifetime) {
-        return f!.result as T
+        this.map.delete(cacheKey)
+        this.map.set(cacheKey, f)
+        this.stats.hits++
+        return f.result as T
       }
     } else {
       log('cache miss for', cacheKey)
     }
     // cache miss
+    this.stats.misses++
+  }
+
+  /**
+   * @param predicate - called with the cached result and key of each entry
+   */
+  deleteWhere(predicate: (result: unknown, cacheKey: CacheKey) => boolean) {
+    for (const [cacheKey, { result }] of this.map) {
+      if (predicate(result, cacheKey)) {
+        log('invalidating entry for', cacheKey)
+        this.map.delete(cacheKey)
+      }
+    }
+  }
+
+  clear() {
+    this.map.clear()
+  }
+
+  getStats(): CacheStats {
+    return { size: this.map.size, ...this.stats }
   }
 
   static getSettings(settings: PluginSettings) {
     const cacheSettings = {
       lifetime: 30, // seconds
+      invalidation: 'mtime',
       ...settings['import-x/cache'],
     }
 
-    // parse infinity
-    if (
-      (['∞', 'Infinity'] as const).includes(
-        // @ts-expect-error - TS can't narrow properly from `includes`
-        cacheSettings.lifetime,
-      )
-    ) {
-      cacheSettings.lifetime = Infinity
-    }
+    cacheSettings.lifetime = parseLifetime(cacheSettings.lifetime)
+    // failed resolutions are cached as long as successful ones by default
+    cacheSettings.negativeLifetime =
+      cacheSettings.negativeLifetime == null
+        ? cacheSettings.lifetime
+        : parseLifetime(cacheSettings.negativeLifetime)
 
-    return cacheSettings as ImportSettings['cache'] & {
+    return cacheSettings as CacheSettings & {
       lifetime: number
+      negativeLifetime: number
+      invalidation: NonNullable<CacheSettings['invalidation']>
     }
   }
 }
+
+function parseLifetime(lifetime: NonNullable<CacheSettings['lifetime']>) {
+  // parse infinity
+  if (lifetime === '∞' || lifetime === 'Infinity') {
+    return Infinity
+  }
+  return lifetime
+}
+
+/**
+ * @return the statistics of every named cache, e.g. `resolve` or `exportMap`
+ */
+export function getCacheStats() {
+  const stats: Record<string, CacheStats> = {}
+  for (const [name, cache] of registry) {
+    stats[name] = cache.getStats()
+  }
+  return stats
+}
@@ -10,24 +10,34 @@ function createModule(filename: string) {
   return mod
 }
 
-export function moduleRequire<T>(p: string): T {
+/**
+ * @return the path of a module, resolved relative to ESLint, then to the entry
+ * point, then to this plugin
+ */
+export function moduleResolve(p: string): string {
   try {
     // attempt to get espree relative to eslint
     const eslintPath = require.resolve('eslint')
     const eslintModule = createModule(eslintPath)
     // @ts-expect-error _resolveFilename is undocumented
-    return require(Module._resolveFilename(p, eslintModule))
+    return Module._resolveFilename(p, eslintModule)
   } catch (err) {
     //
   }
 
   try {
     // try relative to entry point
-    return require.main!.require(p)
+    return require.resolve(p, {
+      paths: [path.dirname(require.main!.filename)],
+    })
   } catch (err) {
     //
   }
 
   // finally, try from here
-  return require(p)
+  return require.resolve(p)
+}
+
+export function moduleRequire<T>(p: string): T {
+  return require(moduleResolve(p))
 }
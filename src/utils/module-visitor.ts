@@ -2,16 +2,17 @@ import type { TSESTree } from '@typescript-eslint/typescript-estree'
 import type { TSESLint } from '@typescript-eslint/utils'
 import type { JSONSchema4 } from 'json-schema'
 
-type Visitor = (
-  source: TSESTree.StringLiteral,
-  importer:
-    | TSESTree.ImportDeclaration
-    | TSESTree.ExportNamedDeclaration
-    | TSESTree.ExportAllDeclaration
-    | TSESTree.CallExpression
-    | TSESTree.ImportExpression
-    | TSESTree.StringLiteral,
-) => void
+import type { ImportKind } from './resolve'
+
+type Importer =
+  | TSESTree.ImportDeclaration
+  | TSESTree.ExportNamedDeclaration
+  | TSESTree.ExportAllDeclaration
+  | TSESTree.CallExpression
+  | TSESTree.ImportExpression
+  | TSESTree.StringLiteral
+
+type Visitor = (source: TSESTree.StringLiteral, importer: Importer) => void
 
 export interface ModuleOptions {
   amd?: boolean
@@ -35,13 +36,7 @@ export function moduleVisitor(visitor: Visitor, options: ModuleOptions) {
 
   function checkSourceValue(
     source: TSESTree.StringLiteral | null | undefined,
-    importer:
-      | TSESTree.ImportDeclaration
-      | TSESTree.ExportNamedDeclaration
-      | TSESTree.ExportAllDeclaration
-      | TSESTree.CallExpression
-      | TSESTree.ImportExpression
-      | TSESTree.StringLiteral,
+    importer: Importer,
   ) {
     if (source == null) {
       return
@@ -189,6 +184,27 @@ export function moduleVisitor(visitor: Visitor, options: ModuleOptions) {
   return visitors
 }
 
+/**
+ * @return how the module is imported by a node passed to a module visitor
+ */
+export function getImportKind(importer: Importer): ImportKind {
+  switch (importer.type) {
+    case 'ImportDeclaration':
+      return importer.importKind === 'type' ? 'type' : 'import'
+    case 'ExportNamedDeclaration':
+    case 'ExportAllDeclaration':
+      return importer.exportKind === 'type' ? 'type' : 'import'
+    case 'ImportExpression':
+      return 'import'
+    case 'CallExpression':
+      // @ts-expect-error this structure is from an older version of eslint
+      return importer.callee.type === 'Import' ? 'import' : 'require'
+    // AMD dependencies
+    default:
+      return 'require'
+  }
+}
+
 /**
  * make an options schema for the module visitor, optionally adding extra fields.
  */
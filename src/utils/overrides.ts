@@ -0,0 +1,65 @@
+import path from 'path'
+
+import { minimatch } from 'minimatch'
+
+import type { Arrayable, PluginSettings } from '../types'
+
+interface FileSettingsCache {
+  byFile: Map<string, PluginSettings>
+  /**
+   * by the indices of the matching overrides, so that files matching the same
+   * overrides share the same object, like they share the same hash
+   */
+  byOverrides: Map<string, PluginSettings>
+}
+
+const fileSettingsCaches = new WeakMap<PluginSettings, FileSettingsCache>()
+
+function matches(filepath: string, globs: Arrayable<string> | undefined) {
+  return [globs || []]
+    .flat()
+    .some(
+      glob =>
+        minimatch(filepath, glob, { dot: true }) ||
+        minimatch(filepath, path.join(process.cwd(), glob), { dot: true }),
+    )
+}
+
+/**
+ * @return the settings applying to a file, with the `import-x/overrides`
+ * matching it merged in order
+ */
+export function getFileSettings(
+  filepath: string,
+  settings: PluginSettings,
+): PluginSettings {
+  const overrides = settings['import-x/overrides']
+  if (!overrides?.length) {
+    return settings
+  }
+
+  let cache = fileSettingsCaches.get(settings)
+  if (!cache) {
+    cache = { byFile: new Map(), byOverrides: new Map() }
+    fileSettingsCaches.set(settings, cache)
+  }
+
+  let fileSettings = cache.byFile.get(filepath)
+  if (!fileSettings) {
+    const matching = overrides.filter(
+      ({ files, excludedFiles }) =>
+        matches(filepath, files) && !matches(filepath, excludedFiles),
+    )
+    const key = matching.map(o => overrides.indexOf(o)).join()
+    fileSettings = cache.byOverrides.get(key)
+    if (!fileSettings) {
+      fileSettings = matching.reduce<PluginSettings>(
+        (merged, override) => ({ ...merged, ...override.settings }),
+        settings,
+      )
+      cache.byOverrides.set(key, fileSettings)
+    }
+    cache.byFile.set(filepath, fileSettings)
+  }
+  return fileSettings
+}
@@ -0,0 +1,179 @@
+/**
+ * The target matching parts of Node's resolution algorithm for the `exports`
+ * and `imports` fields of `package.json`.
+ *
+ * @see https://nodejs.org/api/esm.html#resolution-algorithm-specification
+ */
+
+export type PackageTarget =
+  | string
+  | null
+  | PackageTarget[]
+  | { [condition: string]: PackageTarget }
+
+type PackageTargetMap = Record<string, PackageTarget>
+
+function isConditionalTarget(target: unknown): target is PackageTargetMap {
+  return target != null && typeof target === 'object' && !Array.isArray(target)
+}
+
+/**
+ * @param exports - the `exports` field of a `package.json`
+ * @param subpath - `.` for the package itself, or `./` followed by a subpath
+ * @param conditions - the condition names to match, in no particular order
+ * @return the target relative to the package root, `null` if not exported
+ */
+export function resolvePackageExports(
+  exports: unknown,
+  subpath: string,
+  conditions: Set<string>,
+) {
+  // sugar for `{ ".": exports }`
+  if (
+    typeof exports === 'string' ||
+    Array.isArray(exports) ||
+    (isConditionalTarget(exports) &&
+      !Object.keys(exports).some(key => key.startsWith('.')))
+  ) {
+    exports = { '.': exports }
+  }
+
+  if (!isConditionalTarget(exports)) {
+    return null
+  }
+
+  return matchTarget(exports, subpath, conditions, false)
+}
+
+/**
+ * @param imports - the `imports` field of a `package.json`
+ * @param specifier - an import specifier starting with `#`
+ * @param conditions - the condition names to match, in no particular order
+ * @return the target, either relative to the package root or a bare specifier
+ * of another package, `null` if not mapped
+ */
+export function resolvePackageImports(
+  imports: unknown,
+  specifier: string,
+  conditions: Set<string>,
+) {
+  if (!isConditionalTarget(imports) || specifier === '#') {
+    return null
+  }
+  return matchTarget(imports, specifier, conditions, true)
+}
+
+function matchTarget(
+  map: PackageTargetMap,
+  key: string,
+  conditions: Set<string>,
+  isImports: boolean,
+) {
+  if (key in map && !key.includes('*')) {
+    return resolveTarget(map[key], '', conditions, isImports) ?? null
+  }
+
+  let bestKey: string | undefined
+  let bestMatch = ''
+
+  for (const patternKey of Object.keys(map)) {
+    const starIndex = patternKey.indexOf('*')
+    if (starIndex === -1 || patternKey.includes('*', starIndex + 1)) {
+      continue
+    }
+    const prefix = patternKey.slice(0, starIndex)
+    const suffix = patternKey.slice(starIndex + 1)
+    if (
+      key.startsWith(prefix) &&
+      key !== prefix &&
+      key.length >= patternKey.length &&
+      key.endsWith(suffix) &&
+      (bestKey == null || comparePatternKeys(bestKey, patternKey) > 0)
+    ) {
+      bestKey = patternKey
+      bestMatch = key.slice(prefix.length, key.length - suffix.length)
+    }
+  }
+
+  if (bestKey == null) {
+    return null
+  }
+
+  return resolveTarget(map[bestKey], bestMatch, conditions, isImports) ?? null
+}
+
+/**
+ * PATTERN_KEY_COMPARE, the most specific pattern sorts first
+ */
+function comparePatternKeys(a: string, b: string) {
+  const aStar = a.indexOf('*')
+  const bStar = b.indexOf('*')
+  if (aStar !== bStar) {
+    return aStar > bStar ? -1 : 1
+  }
+  if (a.length !== b.length) {
+    return a.length > b.length ? -1 : 1
+  }
+  return 0
+}
+
+/**
+ * @return the matched target, `null` if excluded or invalid, `undefined` if no
+ * condition matched
+ */
+function resolveTarget(
+  target: PackageTarget,
+  patternMatch: string,
+  conditions: Set<string>,
+  isImports: boolean,
+): string | null | undefined {
+  if (typeof target === 'string') {
+    if (!target.startsWith('./')) {
+      // only `imports` may map to other packages
+      if (
+        !isImports ||
+        target.startsWith('../') ||
+        target.startsWith('/') ||
+        /^[a-z][\d+.a-z-]*:/i.test(target)
+      ) {
+        return null
+      }
+    }
+    return target.split('*').join(patternMatch)
+  }
+
+  if (Array.isArray(target)) {
+    for (const fallback of target) {
+      const resolved = resolveTarget(
+        fallback,
+        patternMatch,
+        conditions,
+        isImports,
+      )
+      if (resolved) {
+        return resolved
+      }
+    }
+    return null
+  }
+
+  if (isConditionalTarget(target)) {
+    for (const condition of Object.keys(target)) {
+      if (condition !== 'default' && !conditions.has(condition)) {
+        continue
+      }
+      const resolved = resolveTarget(
+        target[condition],
+        patternMatch,
+        conditions,
+        isImports,
+      )
+      if (resolved !== undefined) {
+        return resolved
+      }
+    }
+    return
+  }
+
+  return null
+}
@@ -1,15 +1,22 @@
-import { extname } from 'path'
+import { basename, dirname, extname } from 'path'
 
 import type { TSESLint, TSESTree } from '@typescript-eslint/utils'
 import debug from 'debug'
 
-import { moduleRequire } from './module-require'
-import { ChildContext, FileExtension, RuleContext } from '../types'
+import { moduleRequire, moduleResolve } from './module-require'
+import { registerInvalidator } from './invalidate'
+import { getFileSettings } from './overrides'
+import { readPkgUp } from './read-pkg-ip'
+import {
+  ChildContext,
+  FileExtension,
+  PluginSettings,
+  RuleContext,
+} from '../types'
 
 const log = debug('eslint-plugin-import-x:parse')
 
 function keysFromParser(
-  parserPath: string | TSESLint.Linter.ParserModule,
   parserInstance: TSESLint.Linter.ParserModule,
   parsedResult?: TSESLint.Linter.ESLintParseResult,
 ) {
@@ -17,8 +24,8 @@ function keysFromParser(
   if (parsedResult && parsedResult.visitorKeys) {
     return parsedResult.visitorKeys
   }
-  if (typeof parserPath === 'string' && /.*espree.*/.test(parserPath)) {
-    // @ts-expect-error - no type yet
+  // Exposed by espree, whether a path or the parser object of flat config
+  if ('VisitorKeys' in parserInstance && parserInstance.VisitorKeys) {
     return parserInstance.VisitorKeys as TSESLint.SourceCode.VisitorKeys
   }
   return null
@@ -51,10 +58,11 @@ export function parse(
     throw new Error('need context to parse properly')
   }
 
+  const languageOptions =
+    'languageOptions' in context ? context.languageOptions : undefined
+
   // ESLint in "flat" mode only sets context.languageOptions.parserOptions
-  let parserOptions =
-    ('languageOptions' in context && context.languageOptions?.parserOptions) ||
-    context.parserOptions
+  let parserOptions = languageOptions?.parserOptions || context.parserOptions
 
   const parserOrPath = getParser(path, context)
 
@@ -66,6 +74,14 @@ export function parse(
   parserOptions = { ...parserOptions }
   parserOptions.ecmaFeatures = { ...parserOptions.ecmaFeatures }
 
+  // ESLint in "flat" mode moves these out of `parserOptions`
+  if (languageOptions?.ecmaVersion != null) {
+    parserOptions.ecmaVersion ??= languageOptions.ecmaVersion
+  }
+  if (languageOptions?.sourceType != null) {
+    parserOptions.sourceType ??= languageOptions.sourceType
+  }
+
   // always include comments and tokens (for doc parsing)
   parserOptions.comment = true
   parserOptions.attachComment = true // keeping this for backward-compat with  older parsers
@@ -105,10 +121,7 @@ export function parse(
     try {
       const parserRaw = parser.parseForESLint(content, parserOptions)
       ast = parserRaw.ast
-      return makeParseReturn(
-        ast,
-        keysFromParser(parserOrPath, parser, parserRaw),
-      )
+      return makeParseReturn(ast, keysFromParser(parser, parserRaw))
     } catch (e) {
       console.warn()
       console.warn(`Error while parsing ${parserOptions.filePath}`)
@@ -121,18 +134,73 @@ export function parse(
         `\`parseForESLint\` from parser \`${typeof parserOrPath === 'string' ? parserOrPath : '`context.languageOptions.parser`'}\` is invalid and will just be ignored`,
       )
     } else {
-      return makeParseReturn(ast, keysFromParser(parserOrPath, parser))
+      return makeParseReturn(ast, keysFromParser(parser))
     }
   }
 
   if ('parse' in parser) {
     const ast = parser.parse(content, parserOptions)
-    return makeParseReturn(ast, keysFromParser(parserOrPath, parser, undefined))
+    return makeParseReturn(ast, keysFromParser(parser, undefined))
   }
 
   throw new Error('Parser must expose a `parse` or `parseForESLint` method')
 }
 
+interface ParserInfo {
+  name?: string
+  version?: string
+}
+
+const parserVersions = new Map<string, string>()
+
+registerInvalidator({
+  invalidate(paths) {
+    for (const p of paths) {
+      if (basename(p) === 'package.json') {
+        parserVersions.clear()
+        return
+      }
+    }
+  },
+  clear() {
+    parserVersions.clear()
+  },
+})
+
+/**
+ * @return the name and version of the parser of a file, the ASTs of other
+ * versions may differ
+ */
+export function getParserVersion(
+  path: string,
+  context: ChildContext | RuleContext,
+) {
+  const parserOrPath = getParser(path, context)
+
+  if (!parserOrPath) {
+    return null
+  }
+
+  if (typeof parserOrPath !== 'string') {
+    // espree exposes them without `meta`
+    const parser = parserOrPath as ParserInfo & { meta?: ParserInfo }
+    const { name, version } = parser.meta || parser
+    return `${name}@${version}`
+  }
+
+  let version = parserVersions.get(parserOrPath)
+  if (version == null) {
+    try {
+      const { pkg } = readPkgUp({ cwd: dirname(moduleResolve(parserOrPath)) })
+      version = `${parserOrPath}@${pkg?.version}`
+    } catch {
+      version = `${parserOrPath}@undefined`
+    }
+    parserVersions.set(parserOrPath, version)
+  }
+  return version
+}
+
 function getParser(path: string, context: ChildContext | RuleContext) {
   const parserPath = getParserPath(path, context)
 
@@ -156,7 +224,15 @@ function getParser(path: string, context: ChildContext | RuleContext) {
 }
 
 function getParserPath(path: string, context: ChildContext | RuleContext) {
-  const parsers = context.settings['import-x/parsers']
+  return (
+    getAlternateParserPath(path, context.settings) ||
+    // default to use ESLint parser
+    context.parserPath
+  )
+}
+
+function getAlternateParserPath(path: string, settings: PluginSettings) {
+  const parsers = getFileSettings(path, settings)['import-x/parsers']
   if (parsers != null) {
     const extension = extname(path) as FileExtension
     for (const parserPath in parsers) {
@@ -167,6 +243,37 @@ function getParserPath(path: string, context: ChildContext | RuleContext) {
       }
     }
   }
-  // default to use ESLint parser
-  return context.parserPath
+}
+
+const TYPESCRIPT_PARSER = '@typescript-eslint/parser'
+
+let isTypeScriptParserInstalled: boolean | undefined
+
+/**
+ * @return the parser of the TypeScript declaration files analyzed whatever the
+ * parser of the linted files, i.e. the one of their extension in
+ * `import-x/parsers`, else `@typescript-eslint/parser` once installed, else
+ * `null` after warning once
+ */
+export function getDeclarationParserPath(
+  path: string,
+  settings: PluginSettings,
+) {
+  const parserPath = getAlternateParserPath(path, settings)
+  if (parserPath) {
+    return parserPath
+  }
+
+  if (isTypeScriptParserInstalled === undefined) {
+    try {
+      moduleResolve(TYPESCRIPT_PARSER)
+      isTypeScriptParserInstalled = true
+    } catch {
+      isTypeScriptParserInstalled = false
+      console.warn(
+        `eslint-plugin-import-x: TypeScript declaration files are not analyzed, install \`${TYPESCRIPT_PARSER}\` or set the parser of \`.ts\` files in the \`import-x/parsers\` setting.`,
+      )
+    }
+  }
+  return isTypeScriptParserInstalled ? TYPESCRIPT_PARSER : null
 }
@@ -0,0 +1,75 @@
+import fs from 'fs'
+import path from 'path'
+
+import debug from 'debug'
+
+import type { PluginSettings } from '../types'
+
+const log = debug('eslint-plugin-import-x:utils:PersistentCache')
+
+const instances = new Map<string, PersistentCache>()
+
+/**
+ * A JSON file per entry on disk, so that expensive results can be shared
+ * across ESLint processes (CI runs, editor restarts).
+ *
+ * Keys are expected to be hashes that already cover everything the entry
+ * depends on, there is no invalidation beyond that.
+ */
+export class PersistentCache {
+  constructor(public dir: string) {}
+
+  get<T>(key: string): T | undefined {
+    let content: string
+    try {
+      content = fs.readFileSync(this.filePath(key), 'utf8')
+    } catch {
+      log('cache miss for', key)
+      return
+    }
+    try {
+      return JSON.parse(content) as T
+    } catch (err) {
+      // a corrupted entry is just a miss, it will be rewritten
+      log('ignoring unreadable entry for', key, err)
+    }
+  }
+
+  set(key: string, value: unknown) {
+    const filePath = this.filePath(key)
+    // write to a temporary file first, concurrent processes must never read a
+    // partially written entry
+    const tmpPath = `${filePath}.${process.pid}.tmp`
+    try {
+      fs.mkdirSync(this.dir, { recursive: true })
+      fs.writeFileSync(tmpPath, JSON.stringify(value))
+      fs.renameSync(tmpPath, filePath)
+      log('setting entry for', key)
+    } catch (err) {
+      // the persistent cache is an optimization, never fail linting for it
+      log('failed to write entry for', key, err)
+    }
+  }
+
+  private filePath(key: string) {
+    return path.join(this.dir, `${key}.json`)
+  }
+
+  /**
+   * @return the cache configured with `import-x/cache.dir`, or `null` when it is not enabled
+   */
+  static for(settings: PluginSettings) {
+    const dir = settings['import-x/cache']?.dir
+    if (!dir) {
+      return null
+    }
+
+    const resolvedDir = path.resolve(dir)
+    let cache = instances.get(resolvedDir)
+    if (!cache) {
+      cache = new PersistentCache(resolvedDir)
+      instances.set(resolvedDir, cache)
+    }
+    return cache
+  }
+}
@@ -4,46 +4,152 @@ import fs from 'fs'
 import Module from 'module'
 import path from 'path'
 
+import type { TSESLint } from '@typescript-eslint/utils'
+import { getTsconfig } from 'get-tsconfig'
+
+import type { PackageJson } from 'type-fest'
+
 import type {
   Arrayable,
   ImportSettings,
+  ImportXResolverOptions,
   PluginSettings,
   RuleContext,
 } from '../types'
 
+import { findAmbientModule } from './ambient-modules'
+import { pluginName } from './constants'
 import { hashObject } from './hash'
+import { registerInvalidator } from './invalidate'
+import { isCoreModule } from './is-core-module'
 import { ModuleCache } from './module-cache'
-
+import { getFileSettings } from './overrides'
+import { resolvePackageExports, resolvePackageImports } from './package-exports'
 import { pkgDir } from './pkg-dir'
+import { pkgUp } from './pkg-up'
 
 export interface ResultNotFound {
   found: false
   path?: undefined
 }
 
-export interface ResultFound {
+export interface ResultFound extends ResolvedMetadata {
   found: true
   path: string | null
 }
 
+/**
+ * Optional details about a resolved module, only provided by resolvers
+ * implementing interface version 3
+ */
+export interface ResolvedMetadata {
+  packageName?: string
+  packageRoot?: string
+  moduleFormat?: 'esm' | 'cjs'
+  isDeclarationFile?: boolean
+}
+
 export type ResolvedResult = ResultNotFound | ResultFound
 
+/**
+ * How the module is imported: `import`/`import()`, `require()`, or
+ * `import type`
+ */
+export type ImportKind = 'import' | 'require' | 'type'
+
+export interface ResolveOptions {
+  importKind?: ImportKind
+  parserOptions?: TSESLint.ParserOptions
+}
+
+/**
+ * Everything a resolver implementing interface version 3 receives besides
+ * its own config
+ */
+export interface ResolverContext {
+  settings: PluginSettings
+  parserOptions?: TSESLint.ParserOptions
+  /**
+   * path of the `tsconfig.json` applying to the importing file, if any
+   */
+  readonly tsconfigPath: string | undefined
+  conditionNames: string[]
+  importKind: ImportKind
+}
+
 export type ResolverResolve = (
   modulePath: string,
   sourceFile: string,
   config: unknown,
 ) => ResolvedResult
 
+export type ResolverResolveV3 = (
+  modulePath: string,
+  sourceFile: string,
+  config: unknown,
+  context: ResolverContext,
+) => ResolvedResult
+
 export type ResolverResolveImport = (
   modulePath: string,
   sourceFile: string,
   config: unknown,
 ) => string | undefined
 
-export type Resolver = {
-  interfaceVersion?: 1 | 2
-  resolve: ResolverResolve
-  resolveImport: ResolverResolveImport
+export type Resolver =
+  | {
+      interfaceVersion?: 1 | 2
+      resolve: ResolverResolve
+      resolveImport: ResolverResolveImport
+    }
+  | {
+      interfaceVersion: 3
+      resolve: ResolverResolveV3
+    }
+
+/**
+ * What happened while resolving a module, see `explainResolution`
+ */
+export interface ResolutionTrace {
+  modulePath: string
+  sourceFile: string
+  /**
+   * whether the result came from the resolution cache, no resolver was run
+   */
+  cacheHit: boolean
+  /**
+   * whether the module is listed in `import-x/core-modules`
+   */
+  coreModule: boolean
+  resolvers: ResolverTrace[]
+  /**
+   * the name of the ambient module matching when no resolver found the module,
+   * see `import-x/ambient-modules`
+   */
+  ambientModule?: string
+  result: ResolvedResult
+}
+
+export interface ResolverTrace {
+  name: string
+  config: unknown
+  interfaceVersion: 1 | 2 | 3
+  result: ResolvedResult
+  /**
+   * the exception thrown by an interface version 1 resolver, which is
+   * otherwise treated as not found
+   */
+  error?: unknown
+  /**
+   * in milliseconds
+   */
+  duration: number
+}
+
+const conditionNamesByImportKind: Record<ImportKind, string[]> = {
+  import: ['import', 'default'],
+  require: ['require', 'default'],
+  type: ['types', 'import', 'default'],
 }
 
 export const CASE_SENSITIVE_FS = !fs.existsSync(
@@ -52,7 +158,7 @@ export const CASE_SENSITIVE_FS = !fs.existsSync(
 
 const ERROR_NAME = 'EslintPluginImportResolveError'
 
-const fileExistsCache = new ModuleCache()
+const fileExistsCache = new ModuleCache(new Map(), { name: 'resolve' })
 
 function tryRequire<T>(
   target: string,
@@ -118,21 +224,154 @@ export function fileExistsWithCaseSync(
       result = fileExistsWithCaseSync(dir, cacheSettings, strict)
     }
   }
-  fileExistsCache.set(filepath, result)
+  fileExistsCache.set(filepath, result, cacheSettings)
   return result
 }
 
-let prevSettings: PluginSettings | null = null
-let memoizedHash: string
+const tsconfigPathCache = new Map<string, string | undefined>()
+
+const NEGATIVE_CACHE_SUFFIX = '\0unresolved'
+
+function findTsconfigPath(
+  sourceFile: string,
+  parserOptions: TSESLint.ParserOptions | undefined,
+) {
+  const { project, tsconfigRootDir = process.cwd() } = parserOptions || {}
+  if (typeof project === 'string') {
+    return path.resolve(tsconfigRootDir, project)
+  }
+  if (Array.isArray(project) && project.length > 0) {
+    return path.resolve(tsconfigRootDir, project[0])
+  }
+
+  const sourceDir = path.dirname(sourceFile)
+  if (!tsconfigPathCache.has(sourceDir)) {
+    tsconfigPathCache.set(sourceDir, getTsconfig(sourceDir)?.path)
+  }
+  return tsconfigPathCache.get(sourceDir)
+}
+
+function createResolverContext(
+  sourceFile: string,
+  settings: PluginSettings,
+  { importKind = 'import', parserOptions }: ResolveOptions,
+): ResolverContext {
+  let tsconfigPath: string | undefined | null = null
+  return {
+    settings,
+    parserOptions,
+    // lazy, most resolvers don't need it
+    get tsconfigPath() {
+      if (tsconfigPath === null) {
+        tsconfigPath = findTsconfigPath(sourceFile, parserOptions)
+      }
+      return tsconfigPath
+    },
+    conditionNames: conditionNamesByImportKind[importKind],
+    importKind,
+  }
+}
+
+/**
+ * several settings alternate with `import-x/overrides`, rather than a single one
+ */
+const settingsHashes = new WeakMap<PluginSettings, string>()
+let prevParserOptions: TSESLint.ParserOptions | undefined
+let memoizedParserOptionsHash = ''
+
+export function fullResolve(
+  modulePath: string,
+  sourceFile: string,
+  settings: PluginSettings,
+  options: ResolveOptions = {},
+): ResolvedResult {
+  return resolveWithTrace(modulePath, sourceFile, settings, options)
+}
+
+/**
+ * Resolve like `no-unresolved` does, recording each resolver tried along the
+ * way, to find out why a module could not be resolved.
+ */
+export function explainResolution(
+  modulePath: string,
+  sourceFile: string,
+  settings: PluginSettings,
+  options: ResolveOptions = {},
+): ResolutionTrace {
+  const trace: ResolutionTrace = {
+    modulePath,
+    sourceFile,
+    cacheHit: false,
+    coreModule: false,
+    resolvers: [],
+    result: { found: false },
+  }
+  trace.result = resolveWithTrace(
+    modulePath,
+    sourceFile,
+    settings,
+    options,
+    trace,
+  )
+  return trace
+}
+
+function formatResult(result: ResolvedResult) {
+  if (!result.found) {
+    return 'not found'
+  }
+  return result.path === null ? 'core module' : result.path
+}
 
-function fullResolve(
+/**
+ * @return a human readable, multiline description of the trace
+ */
+export function formatResolutionTrace(trace: ResolutionTrace) {
+  if (trace.coreModule) {
+    return 'listed in import-x/core-modules'
+  }
+  if (trace.cacheHit) {
+    return `cached: ${formatResult(trace.result)}`
+  }
+  if (trace.resolvers.length === 0) {
+    return 'no resolver configured'
+  }
+  const lines = trace.resolvers.map(
+    ({ name, config, interfaceVersion, result, error, duration }) => {
+      let line = `${name} (v${interfaceVersion}`
+      if (config != null) {
+        line += `, ${JSON.stringify(config)}`
+      }
+      line += `): ${formatResult(result)} in ${duration.toFixed(1)}ms`
+      if (error != null) {
+        line += `, threw: ${error instanceof Error ? error.message : String(error)}`
+      }
+      return line
+    },
+  )
+  if (trace.ambientModule != null) {
+    lines.push(
+      `ambient module '${trace.ambientModule}': ${formatResult(trace.result)}`,
+    )
+  }
+  return lines.join('\n')
+}
+
+function resolveWithTrace(
   modulePath: string,
   sourceFile: string,
   settings: PluginSettings,
-) {
+  options: ResolveOptions,
+  trace?: ResolutionTrace,
+): ResolvedResult {
+  settings = getFileSettings(sourceFile, settings)
+
   // check if this is a bonus core module
   const coreSet = new Set(settings['import-x/core-modules'])
   if (coreSet.has(modulePath)) {
+    if (trace) {
+      trace.coreModule = true
+    }
     return {
       found: true,
       path: null,
@@ -141,25 +380,61 @@ function fullResolve(
 
   const sourceDir = path.dirname(sourceFile)
 
-  if (prevSettings !== settings) {
-    memoizedHash = hashObject(settings).digest('hex')
-    prevSettings = settings
+  let settingsHash = settingsHashes.get(settings)
+  if (settingsHash == null) {
+    settingsHash = hashObject(settings).digest('hex')
+    settingsHashes.set(settings, settingsHash)
+  }
+
+  if (prevParserOptions !== options.parserOptions) {
+    memoizedParserOptionsHash = options.parserOptions
+      ? hashObject(options.parserOptions).digest('hex')
+      : ''
+    prevParserOptions = options.parserOptions
   }
 
-  const cacheKey = sourceDir + memoizedHash + modulePath
+  const cacheKey =
+    sourceDir +
+    settingsHash +
+    memoizedParserOptionsHash +
+    (options.importKind || 'import') +
+    modulePath
 
   const cacheSettings = ModuleCache.getSettings(settings)
 
-  const cachedPath = fileExistsCache.get<string | null>(cacheKey, cacheSettings)
-  if (cachedPath !== undefined) {
-    return { found: true, path: cachedPath }
+  const cachedResult = fileExistsCache.get<ResultFound>(cacheKey, cacheSettings)
+  if (cachedResult !== undefined) {
+    if (trace) {
+      trace.cacheHit = true
+    }
+    return cachedResult
+  }
+
+  // failed resolutions have their own lifetime, and are never served when
+  // explaining, that would explain nothing
+  const negativeCacheKey = cacheKey + NEGATIVE_CACHE_SUFFIX
+  if (
+    !trace &&
+    fileExistsCache.get<true>(negativeCacheKey, {
+      lifetime: cacheSettings.negativeLifetime,
+    })
+  ) {
+    return { found: false }
   }
 
-  function cache(resolvedPath: string | null) {
-    fileExistsCache.set(cacheKey, resolvedPath)
+  function cache(resolved: ResultFound) {
+    fileExistsCache.set(cacheKey, resolved, cacheSettings)
   }
 
-  function withResolver(resolver: Resolver, config: unknown) {
+  let resolverContext: ResolverContext | undefined
+  let resolverError: unknown
+
+  function withResolver(resolver: Resolver, config: unknown): ResolvedResult {
+    if (resolver.interfaceVersion === 3) {
+      resolverContext ??= createResolverContext(sourceFile, settings, options)
+      return resolver.resolve(modulePath, sourceFile, config, resolverContext)
+    }
+
     if (resolver.interfaceVersion === 2) {
       return resolver.resolve(modulePath, sourceFile, config)
     }
@@ -175,7 +450,8 @@ function fullResolve(
         found: true,
         path: resolved,
       }
-    } catch {
+    } catch (err) {
+      resolverError = err
       return {
         found: false,
       }
@@ -192,19 +468,48 @@ function fullResolve(
     const name = pair[0]
     const config = pair[1]
     const resolver = requireResolver(name, sourceFile)
+    const start = process.hrtime()
+    resolverError = undefined
     const resolved = withResolver(resolver, config)
 
+    if (trace) {
+      const [seconds, nanoseconds] = process.hrtime(start)
+      trace.resolvers.push({
+        name,
+        config,
+        interfaceVersion: resolver.interfaceVersion || 1,
+        result: resolved,
+        error: resolverError,
+        duration: seconds * 1e3 + nanoseconds / 1e6,
+      })
+    }
+
     if (!resolved.found) {
       continue
     }
 
     // else, counts
-    cache(resolved.path as string | null)
+    cache(resolved)
+    return resolved
+  }
+
+  // `declare module 'name'` in declaration files, only resolved by TypeScript
+  const ambientModule = findAmbientModule(modulePath, sourceFile, settings)
+  if (ambientModule) {
+    if (trace) {
+      trace.ambientModule = ambientModule.name
+    }
+    const resolved: ResultFound = {
+      found: true,
+      path: ambientModule.path,
+      isDeclarationFile: true,
+    }
+    cache(resolved)
     return resolved
   }
 
   // failed
-  // cache(undefined)
+  fileExistsCache.set(negativeCacheKey, true, cacheSettings)
   return { found: false }
 }
 
@@ -212,8 +517,9 @@ export function relative(
   modulePath: string,
   sourceFile: string,
   settings: PluginSettings,
+  options?: ResolveOptions,
 ) {
-  return fullResolve(modulePath, sourceFile, settings).path
+  return fullResolve(modulePath, sourceFile, settings, options).path
 }
 
 function resolverReducer(
@@ -247,6 +553,10 @@ function getBaseDir(sourceFile: string): string {
 }
 
 function requireResolver(name: string, sourceFile: string) {
+  if (name === pluginName) {
+    return importXResolver
+  }
+
   // Try to resolve package with conventional name
   const resolver =
     tryRequire(`eslint-import-resolver-${name}`, sourceFile) ||
@@ -268,7 +578,10 @@ function requireResolver(name: string, sourceFile: string) {
 }
 
 function isResolverValid(resolver: object): resolver is Resolver {
-  if ('interfaceVersion' in resolver && resolver.interfaceVersion === 2) {
+  if (
+    'interfaceVersion' in resolver &&
+    (resolver.interfaceVersion === 2 || resolver.interfaceVersion === 3)
+  ) {
     return (
       'resolve' in resolver &&
       !!resolver.resolve &&
@@ -282,22 +595,341 @@ function isResolverValid(resolver: object): resolver is Resolver {
   )
 }
 
+const packageJsonCache = new ModuleCache(new Map(), { name: 'packageJson' })
+
+function readPackageJson(packageJsonPath: string, settings: PluginSettings) {
+  const cacheSettings = ModuleCache.getSettings(settings)
+  let pkg = packageJsonCache.get<PackageJson | null>(
+    packageJsonPath,
+    cacheSettings,
+  )
+  if (pkg === undefined) {
+    try {
+      pkg = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')) as PackageJson
+    } catch {
+      pkg = null
+    }
+    packageJsonCache.set(packageJsonPath, pkg, cacheSettings)
+  }
+  return pkg
+}
+
+function isFile(filepath: string) {
+  try {
+    return fs.statSync(filepath).isFile()
+  } catch {
+    return false
+  }
+}
+
+function isDirectory(filepath: string) {
+  try {
+    return fs.statSync(filepath).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+function resolveAsFile(filepath: string, extensions: readonly string[]) {
+  if (isFile(filepath)) {
+    return filepath
+  }
+  for (const extension of extensions) {
+    if (isFile(filepath + extension)) {
+      return filepath + extension
+    }
+  }
+}
+
+function resolveAsDirectory(
+  dir: string,
+  extensions: readonly string[],
+  settings: PluginSettings,
+) {
+  const pkg = readPackageJson(path.join(dir, 'package.json'), settings)
+  if (pkg && typeof pkg.main === 'string') {
+    const main = path.resolve(dir, pkg.main)
+    const resolved =
+      resolveAsFile(main, extensions) ||
+      resolveAsFile(path.join(main, 'index'), extensions)
+    if (resolved) {
+      return resolved
+    }
+  }
+  return resolveAsFile(path.join(dir, 'index'), extensions)
+}
+
+function resolveAsFileOrDirectory(
+  filepath: string,
+  extensions: readonly string[],
+  settings: PluginSettings,
+) {
+  return (
+    resolveAsFile(filepath, extensions) ||
+    (isDirectory(filepath)
+      ? resolveAsDirectory(filepath, extensions, settings)
+      : undefined)
+  )
+}
+
+function getModuleFormat(filepath: string, settings: PluginSettings) {
+  if (/\.m[jt]s$/.test(filepath)) {
+    return 'esm'
+  }
+  if (/\.c[jt]s$/.test(filepath)) {
+    return 'cjs'
+  }
+  const packageJsonPath = pkgUp({ cwd: path.dirname(filepath) })
+  const pkg = packageJsonPath && readPackageJson(packageJsonPath, settings)
+  return pkg && pkg.type === 'module' ? 'esm' : 'cjs'
+}
+
+/**
+ * @return the package name and the subpath in the `exports` format, i.e. `.`
+ * or `./` followed by the rest of the specifier
+ */
+function parsePackageSpecifier(specifier: string) {
+  const segments = specifier.split('/')
+  const nameLength = specifier.startsWith('@') ? 2 : 1
+  return {
+    packageName: segments.slice(0, nameLength).join('/'),
+    subpath: ['.', ...segments.slice(nameLength)].join('/'),
+  }
+}
+
+/**
+ * The first-party resolver, implementing Node's resolution algorithm including
+ * the `exports` and `imports` fields of `package.json`, with condition names
+ * selected by the kind of import.
+ */
+const importXResolver: Resolver = {
+  interfaceVersion: 3,
+  resolve(modulePath, sourceFile, config, context): ResolvedResult {
+    const options: ImportXResolverOptions =
+      config && typeof config === 'object' ? config : {}
+    const extensions = options.extensions || ['.mjs', '.js', '.json', '.node']
+    const conditions = new Set([
+      ...(options.conditions || ['node']),
+      ...context.conditionNames,
+    ])
+    const { settings } = context
+
+    function found(
+      resolvedPath: string | undefined,
+      packageName?: string,
+      packageRoot?: string,
+    ): ResolvedResult {
+      if (!resolvedPath) {
+        return { found: false }
+      }
+      const realPath = fs.realpathSync(resolvedPath)
+      return {
+        found: true,
+        path: realPath,
+        packageName,
+        packageRoot,
+        moduleFormat: getModuleFormat(realPath, settings),
+        isDeclarationFile: /\.d\.[cm]?ts$/.test(realPath),
+      }
+    }
+
+    function resolvePackage(
+      packageRoot: string,
+      packageName: string,
+      subpath: string,
+    ) {
+      const pkg = readPackageJson(
+        path.join(packageRoot, 'package.json'),
+        settings,
+      )
+
+      if (pkg && pkg.exports != null) {
+        const target = resolvePackageExports(pkg.exports, subpath, conditions)
+        return found(
+          target == null
+            ? undefined
+            : resolveAsFile(path.resolve(packageRoot, target), []),
+          packageName,
+          packageRoot,
+        )
+      }
+
+      return found(
+        subpath === '.'
+          ? resolveAsDirectory(packageRoot, extensions, settings)
+          : resolveAsFileOrDirectory(
+              path.join(packageRoot, subpath),
+              extensions,
+              settings,
+            ),
+        packageName,
+        packageRoot,
+      )
+    }
+
+    if (isCoreModule(modulePath)) {
+      return { found: true, path: null }
+    }
+
+    const sourceDir = path.dirname(path.resolve(sourceFile))
+
+    if (
+      modulePath.startsWith('./') ||
+      modulePath.startsWith('../') ||
+      modulePath === '.' ||
+      modulePath === '..' ||
+      path.isAbsolute(modulePath)
+    ) {
+      return found(
+        resolveAsFileOrDirectory(
+          path.resolve(sourceDir, modulePath),
+          extensions,
+          settings,
+        ),
+      )
+    }
+
+    const packageJsonPath = pkgUp({ cwd: sourceDir })
+    const ownPackage =
+      packageJsonPath && readPackageJson(packageJsonPath, settings)
+
+    // subpath imports: `#internal`
+    if (modulePath.startsWith('#')) {
+      if (!ownPackage) {
+        return { found: false }
+      }
+      const target = resolvePackageImports(
+        ownPackage.imports,
+        modulePath,
+        conditions,
+      )
+      if (target == null) {
+        return { found: false }
+      }
+      if (target.startsWith('./')) {
+        return found(
+          resolveAsFile(
+            path.resolve(path.dirname(packageJsonPath), target),
+            [],
+          ),
+        )
+      }
+      // mapped to another package
+      return importXResolver.resolve(target, sourceFile, config, context)
+    }
+
+    const { packageName, subpath } = parsePackageSpecifier(modulePath)
+
+    // self-referencing a package using its name
+    if (ownPackage && ownPackage.name === packageName && ownPackage.exports) {
+      return resolvePackage(path.dirname(packageJsonPath), packageName, subpath)
+    }
+
+    let dir = sourceDir
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      if (path.basename(dir) !== 'node_modules') {
+        const packageRoot = path.join(dir, 'node_modules', packageName)
+        if (isDirectory(packageRoot)) {
+          return resolvePackage(packageRoot, packageName, subpath)
+        }
+      }
+      const parent = path.dirname(dir)
+      if (parent === dir) {
+        return { found: false }
+      }
+      dir = parent
+    }
+  },
+}
+
+registerInvalidator({
+  invalidate(paths) {
+    fileExistsCache.deleteWhere((result, cacheKey) => {
+      const key = cacheKey as string
+      return (
+        // casing checks
+        paths.has(key) ||
+        // a created file may fix any failed resolution
+        key.endsWith(NEGATIVE_CACHE_SUFFIX) ||
+        paths.has((result as Partial<ResultFound>).path!)
+      )
+    })
+    packageJsonCache.deleteWhere((_, cacheKey) => paths.has(cacheKey as string))
+    for (const p of paths) {
+      if (p.endsWith('.json')) {
+        tsconfigPathCache.clear()
+        break
+      }
+    }
+  },
+  clear() {
+    fileExistsCache.clear()
+    packageJsonCache.clear()
+    tsconfigPathCache.clear()
+  },
+})
+
 const erroredContexts = new Set<RuleContext>()
 
+function getSourceFile(context: RuleContext) {
+  return context.getPhysicalFilename
+    ? context.getPhysicalFilename()
+    : context.getFilename()
+}
+
+function getResolveOptions(
+  context: RuleContext,
+  importKind?: ImportKind,
+): ResolveOptions {
+  return {
+    importKind,
+    // ESLint in "flat" mode only sets context.languageOptions.parserOptions
+    parserOptions:
+      context.languageOptions?.parserOptions || context.parserOptions,
+  }
+}
+
+/**
+ * `explainResolution` for the file being linted
+ *
+ * @return `undefined` if resolving throws, `resolve` already reports that
+ */
+export function explain(
+  p: string,
+  context: RuleContext,
+  importKind?: ImportKind,
+) {
+  try {
+    return explainResolution(
+      p,
+      getSourceFile(context),
+      context.settings,
+      getResolveOptions(context, importKind),
+    )
+  } catch {
+    return
+  }
+}
+
 /**
  * Given
  * @param p - module path
  * @param context - ESLint context
+ * @param importKind - how the module is imported, defaults to `import`
  * @return - the full module filesystem path; null if package is core; undefined if not found
  */
-export function resolve(p: string, context: RuleContext) {
+export function resolve(
+  p: string,
+  context: RuleContext,
+  importKind?: ImportKind,
+) {
   try {
     return relative(
       p,
-      context.getPhysicalFilename
-        ? context.getPhysicalFilename()
-        : context.getFilename(),
+      getSourceFile(context),
       context.settings,
+      getResolveOptions(context, importKind),
     )
   } catch (err) {
     const error = err as Error
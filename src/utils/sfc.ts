@@ -0,0 +1,123 @@
+import { extname } from 'path'
+
+import type { FileExtension } from '../types'
+
+export interface ScriptBlock {
+  /**
+   * the file content with everything but the script blanked out, so that
+   * locations in the parsed AST are the same as in the file
+   */
+  code: string
+  /**
+   * the file path with the extension of the script language appended, to pick
+   * the parser of that language
+   */
+  scriptPath: string
+}
+
+/**
+ * The scripts of a single-file component, as a module to parse instead of the
+ * whole file
+ */
+export interface ComponentScript {
+  /**
+   * the file content with everything but the scripts blanked out
+   */
+  code: string
+  /**
+   * parsed separately, as the top-level bindings of Vue `<script>` and
+   * `<script setup>` may be the same
+   */
+  blocks: ScriptBlock[]
+}
+
+const componentExtensions = new Set<FileExtension>([
+  '.vue',
+  '.svelte',
+  '.astro',
+])
+
+const scriptPattern = /(<script(\s[^>]*)?>)([\S\s]*?)<\/script\s*>/gi
+
+const langPattern = /\slang\s*=\s*["']?([\w-]+)/i
+
+// `context="module"` up to Svelte 4, `module` since Svelte 5
+const svelteModulePattern = /\scontext\s*=\s*["']?module\b|\smodule(\s|=|$)/i
+
+// Svelte component props, which are not exports of the module
+const sveltePropPattern =
+  /\bexport(?=\s+(?:let|const|var|function|class|async)\b)/g
+
+const astroFrontmatterPattern = /^(\s*---\r?\n)([\S\s]*?)\r?\n---/
+
+/**
+ * Vue, Svelte and Astro components, which always have a default export: the
+ * component itself
+ */
+export function isSingleFileComponent(path: string) {
+  return componentExtensions.has(extname(path) as FileExtension)
+}
+
+function blank(text: string) {
+  return text.replace(/[^\n\r]/g, ' ')
+}
+
+/**
+ * @return `null` for files other than single-file components
+ */
+export function extractComponentScript(
+  path: string,
+  content: string,
+): ComponentScript | null {
+  const extension = extname(path)
+  if (!isSingleFileComponent(path)) {
+    return null
+  }
+
+  const blocks: Array<{ start: number; text: string; lang?: string }> = []
+
+  if (extension === '.astro') {
+    const match = astroFrontmatterPattern.exec(content)
+    if (match) {
+      // the frontmatter is always TypeScript
+      blocks.push({ start: match[1].length, text: match[2], lang: 'ts' })
+    }
+  } else {
+    for (const match of content.matchAll(scriptPattern)) {
+      const [, openingTag, attributes = '', body] = match
+      let text = body
+      if (extension === '.svelte' && !svelteModulePattern.test(attributes)) {
+        // the instance script runs per component, only its imports matter
+        text = text.replace(sveltePropPattern, blank)
+      }
+      blocks.push({
+        start: match.index! + openingTag.length,
+        text,
+        lang: langPattern.exec(attributes)?.[1],
+      })
+    }
+  }
+
+  function blankAllBut(kept: typeof blocks) {
+    let code = ''
+    let offset = 0
+    for (const { start, text } of kept) {
+      code += blank(content.slice(offset, start)) + text
+      offset = start + text.length
+    }
+    return code + blank(content.slice(offset))
+  }
+
+  const code = blankAllBut(blocks)
+  return {
+    code,
+    blocks:
+      blocks.length === 0
+        ? // an empty module
+          [{ code, scriptPath: `${path}.js` }]
+        : blocks.map(block => ({
+            code: blankAllBut([block]),
+            scriptPath: `${path}.${block.lang && /^[jt]sx?$/.test(block.lang) ? block.lang : 'js'}`,
+          })),
+  }
+}
@@ -0,0 +1,61 @@
+import { Linter } from 'eslint'
+
+import * as plugin from '../../src'
+import { testFilePath } from '../utils'
+
+describe('flat configs', () => {
+  const { configs } = plugin
+
+  it('exposes a flat variant for every legacy config', () => {
+    for (const name of Object.keys(configs)) {
+      if (!name.startsWith('flat/')) {
+        expect(configs).toHaveProperty(`flat/${name}`)
+      }
+    }
+  })
+
+  it('references the plugin object itself', () => {
+    expect(configs['flat/recommended'].plugins).toEqual({ 'import-x': plugin })
+    expect(configs['flat/recommended'].plugins?.['import-x']).toBe(plugin)
+  })
+
+  it('moves parser options under `languageOptions`', () => {
+    expect(configs['flat/recommended']).toMatchObject({
+      name: 'import-x/flat/recommended',
+      languageOptions: {
+        sourceType: 'module',
+        ecmaVersion: 2018,
+      },
+      rules: configs.recommended.rules,
+    })
+    expect(configs['flat/react'].languageOptions).toEqual({
+      parserOptions: {
+        ecmaFeatures: {
+          jsx: true,
+        },
+      },
+    })
+    expect(configs['flat/typescript'].settings).toBe(
+      configs.typescript.settings,
+    )
+  })
+
+  it('can be used by ESLint in flat mode', () => {
+    const linter = new Linter({ configType: 'flat' })
+    const filename = testFilePath('foo.js')
+    const messages = linter.verify(
+      "import { nope } from './named-exports'",
+      [
+        { files: ['**/*.js'] },
+        configs['flat/recommended'],
+      ] as Linter.FlatConfig[],
+      filename,
+    )
+    expect(messages).toMatchObject([
+      {
+        ruleId: 'import-x/named',
+        message: "nope not found in './named-exports'",
+      },
+    ])
+  })
+})
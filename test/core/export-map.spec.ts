@@ -1,4 +1,5 @@
 import fs from 'fs'
+import os from 'os'
 
 import semver from 'semver'
 import eslintPkg from 'eslint/package.json'
@@ -6,7 +7,7 @@ import getTsconfig from 'get-tsconfig'
 import { setTimeout } from 'timers/promises'
 
 import { ExportMap } from '../../src/export-map'
-import { testFilePath } from '../utils'
+import { parsers, testFilePath } from '../utils'
 import { isMaybeUnambiguousModule } from '../../src/utils/unambiguous'
 import type { ChildContext, RuleContext } from '../../src/types'
 
@@ -51,6 +52,19 @@ describe('ExportMap', () => {
     })
   })
 
+  it('evicts the least recently used copies beyond `maxExportMaps`', () => {
+    const boundedContext = {
+      ...fakeContext,
+      settings: { 'import-x/cache': { maxExportMaps: 1 } },
+    }
+
+    const first = ExportMap.get('./named-exports', boundedContext)
+    expect(ExportMap.get('./named-exports', boundedContext)).toBe(first)
+
+    ExportMap.get('./export-all', boundedContext)
+    expect(ExportMap.get('./named-exports', boundedContext)).not.toBe(first)
+  })
+
   it('does not return a cached copy with different settings', () => {
     const firstAccess = ExportMap.get('./named-exports', fakeContext)
     expect(firstAccess).toBeDefined()
@@ -479,6 +493,696 @@ describe('ExportMap', () => {
     })
   })
 
+  describe('JSON modules', () => {
+    it('only exports a default', () => {
+      const imports = ExportMap.get('./data.json', fakeContext)!
+      expect(imports.errors).toHaveLength(0)
+      expect([...imports.namespace.keys()]).toEqual(['default'])
+    })
+
+    it('exports the top-level keys with `import-x/json-named-exports`', () => {
+      const imports = ExportMap.get('./data.json', {
+        ...fakeContext,
+        settings: { 'import-x/json-named-exports': true },
+      })!
+      expect([...imports.namespace.keys()]).toEqual(['default', 'foo'])
+    })
+
+    it('is still ignored by `import-x/ignore`', () => {
+      expect(
+        ExportMap.get('./data.json', {
+          ...fakeContext,
+          settings: { 'import-x/ignore': ['\\.json$'] },
+        }),
+      ).toBeNull()
+    })
+
+    it('has an error for invalid JSON', () => {
+      const imports = ExportMap.get(
+        './just-json-files/invalid.json',
+        fakeContext,
+      )!
+      expect(imports.errors).toHaveLength(1)
+      expect(imports.errors[0].lineNumber).toBeGreaterThan(0)
+    })
+  })
+
+  describe('CommonJS modules', () => {
+    const context = {
+      ...fakeContext,
+      settings: { 'import-x/commonjs-exports': true },
+    }
+
+    function names(source: string) {
+      const imports = ExportMap.get(source, context)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.parseGoal).toBe('Script')
+      const result: string[] = []
+      imports.forEach((_, name) => result.push(name))
+      return result.sort()
+    }
+
+    it('is off by default', () => {
+      expect(ExportMap.get('./commonjs-exports/object', fakeContext)).toBeNull()
+    })
+
+    it('exports the properties of `module.exports` objects', () => {
+      expect(names('./commonjs-exports/object')).toEqual([
+        'bar',
+        'baz',
+        'default',
+        'foo',
+        'qux',
+      ])
+    })
+
+    it('exports the assigned and defined properties of `exports`', () => {
+      expect(names('./commonjs-exports/assigned')).toEqual([
+        'bar',
+        'baz',
+        'default',
+        'foo',
+        'qux',
+      ])
+      const imports = ExportMap.get('./commonjs-exports/assigned', context)!
+      expect(
+        imports.get<{ doc: { tags: unknown[] } }>('foo')!.doc.tags,
+      ).toEqual([expect.objectContaining({ title: 'deprecated' })])
+    })
+
+    it('follows `module.exports = require(...)`', () => {
+      expect(names('./commonjs-exports/reexport')).toEqual(
+        names('./commonjs-exports/object'),
+      )
+    })
+
+    it('understands the output of TypeScript', () => {
+      expect(names('./commonjs-exports/typescript')).toEqual([
+        'answer',
+        'bar',
+        'baz',
+        'default',
+        'foo',
+        'qux',
+      ])
+    })
+
+    it('understands the output of Babel', () => {
+      // without the `default` of `module.exports`, as marked by `__esModule`
+      expect(names('./commonjs-exports/babel')).toEqual([
+        'answer',
+        'bar',
+        'baz',
+        'foo',
+        'qux',
+      ])
+    })
+
+    it('is unknown when the exports can not be followed', () => {
+      expect(ExportMap.get('./commonjs-exports/dynamic', context)).toBeNull()
+    })
+
+    it('uses the visitor keys of the parser object of flat config', () => {
+      const flatContext = {
+        ...context,
+        parserPath: undefined,
+        languageOptions: {
+          parser: require(parsers.ESPREE),
+          ecmaVersion: 'latest',
+          sourceType: 'script',
+        },
+      } as unknown as RuleContext
+      const imports = ExportMap.get('./commonjs-exports/object', flatContext)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.has('foo')).toBe(true)
+    })
+  })
+
+  describe('CSS Modules', () => {
+    const context = {
+      ...fakeContext,
+      settings: { 'import-x/css-modules': true },
+    } as RuleContext
+
+    function classNames(source: string, settings = context.settings) {
+      const imports = ExportMap.get(source, { ...fakeContext, settings })!
+      const { namespace } = imports.get<{ namespace: ExportMap }>('default')!
+      return [...namespace.namespace.keys()].sort()
+    }
+
+    it('exports the local class names as properties of the default', () => {
+      const imports = ExportMap.get('./css-modules/Button.module.css', context)!
+      expect(imports.errors).toHaveLength(0)
+      expect([...imports.namespace.keys()]).toEqual(['default'])
+      expect(classNames('./css-modules/Button.module.css')).toEqual([
+        'button',
+        'disabled',
+        'fade-in',
+        'gridSize',
+        'primary-button',
+        'primary-color',
+        'wide',
+      ])
+    })
+
+    it('resolves the nested rules of Sass', () => {
+      expect(classNames('./css-modules/Card.module.scss')).toEqual([
+        'card',
+        'card--active',
+        'card__title',
+        'icon',
+      ])
+    })
+
+    it('converts the class names with `localsConvention`', () => {
+      expect(
+        classNames('./css-modules/Card.module.scss', {
+          'import-x/css-modules': { localsConvention: 'camelCaseOnly' },
+        }),
+      ).toEqual(['card', 'cardActive', 'cardTitle', 'icon'])
+      expect(
+        classNames('./css-modules/Card.module.scss', {
+          'import-x/css-modules': { localsConvention: 'dashes' },
+        }),
+      ).toEqual(['card', 'card--active', 'cardActive', 'card__title', 'icon'])
+    })
+
+    it('exports the class names with `namedExports`', () => {
+      const imports = ExportMap.get('./css-modules/Card.module.scss', {
+        ...fakeContext,
+        settings: { 'import-x/css-modules': { namedExports: true } },
+      })!
+      expect(imports.has('default')).toBe(true)
+      expect(imports.has('card__title')).toBe(true)
+    })
+
+    it('is unknown when the class names are generated', () => {
+      expect(
+        ExportMap.get('./css-modules/Generated.module.scss', context),
+      ).toBeNull()
+    })
+
+    it('is not analyzed unless `import-x/css-modules` is enabled', () => {
+      expect(
+        ExportMap.get('./css-modules/Button.module.css', fakeContext),
+      ).toBeNull()
+      expect(
+        ExportMap.get('./css-modules/Button.module.css', {
+          ...fakeContext,
+          settings: { 'import-x/css-modules': false },
+        }),
+      ).toBeNull()
+    })
+  })
+
+  describe('external types', () => {
+    const context = {
+      ...fakeContext,
+      settings: { 'import-x/external-types': true },
+    }
+
+    it('is off by default', () => {
+      expect(ExportMap.get('typed-cjs', fakeContext)).toBeNull()
+    })
+
+    it('uses the `types` of the package entry', () => {
+      const imports = ExportMap.get('typed-cjs', context)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.path).toBe(
+        testFilePath('node_modules/typed-cjs/types/index.d.ts'),
+      )
+      expect(imports.has('foo')).toBe(true)
+      expect(
+        imports.get<{ doc: { tags: unknown[] } }>('bar')!.doc.tags,
+      ).toEqual([expect.objectContaining({ title: 'deprecated' })])
+    })
+
+    it('uses the `types` condition of `exports`', () => {
+      const imports = ExportMap.forPath(
+        testFilePath('node_modules/typed-cjs/dist/utils.js'),
+        context,
+      )!
+      expect(imports.path).toBe(
+        testFilePath('node_modules/typed-cjs/types/utils.d.ts'),
+      )
+      expect(imports.has('noop')).toBe(true)
+    })
+
+    it('uses sibling declaration files', () => {
+      const imports = ExportMap.forPath(
+        testFilePath('node_modules/typed-cjs/dist/extra.js'),
+        context,
+      )!
+      expect(imports.has('extra')).toBe(true)
+    })
+
+    it('falls back to `@types` packages', () => {
+      const imports = ExportMap.get('untyped-cjs', context)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.has('parse')).toBe(true)
+    })
+  })
+
+  describe('export kinds', () => {
+    const context = {
+      ...fakeContext,
+      settings: {
+        'import-x/extensions': ['.ts'],
+        'import-x/parsers': { '@typescript-eslint/parser': ['.ts'] },
+        'import-x/resolver': { node: { extensions: ['.ts'] } },
+      },
+    } as RuleContext
+
+    const kinds = ExportMap.get('./export-kinds', context)!
+
+    it('has no parse errors', () => {
+      expect(kinds.errors).toHaveLength(0)
+    })
+
+    it.each([
+      ['Alias', 'type'],
+      ['Shape', 'interface'],
+      ['value', 'value'],
+      ['fn', 'function'],
+      ['Klass', 'class'],
+      ['Color', 'enum'],
+      ['Space', 'namespace'],
+      ['values', 'namespace'],
+      ['default', 'interface'],
+    ])('knows the kind of %s', (name, kind) => {
+      expect(kinds.getKind(name)).toEqual({ kind, isTypeOnly: false })
+    })
+
+    it('knows the exports of local bindings', () => {
+      expect(kinds.getKind('Local')).toEqual({
+        kind: 'interface',
+        isTypeOnly: true,
+      })
+      expect(kinds.getKind('InlineLocal')).toEqual({
+        kind: 'interface',
+        isTypeOnly: true,
+      })
+      // the bindings of imports are not analyzed
+      expect(kinds.getKind('Options')).toEqual({
+        kind: undefined,
+        isTypeOnly: true,
+      })
+    })
+
+    it('prefers values for merged declarations', () => {
+      expect(kinds.getKind('Merged')).toEqual({
+        kind: 'value',
+        isTypeOnly: false,
+      })
+    })
+
+    it('follows re-exports', () => {
+      expect(kinds.getKind('Point')).toEqual({
+        kind: 'interface',
+        isTypeOnly: false,
+      })
+      expect(kinds.getKind('TypePoint')).toEqual({
+        kind: 'interface',
+        isTypeOnly: true,
+      })
+      expect(kinds.getKind('format')).toEqual({
+        kind: 'function',
+        isTypeOnly: false,
+      })
+    })
+
+    it('follows star exports', () => {
+      expect(kinds.getKind('Starred')).toEqual({
+        kind: 'class',
+        isTypeOnly: true,
+      })
+      expect(kinds.getKind('starredValue')).toEqual({
+        kind: 'value',
+        isTypeOnly: false,
+      })
+    })
+
+    it('is undefined for missing exports', () => {
+      expect(kinds.getKind('missing')).toBeUndefined()
+    })
+
+    it('knows the kinds of JavaScript exports', () => {
+      const named = ExportMap.get('./named-exports', fakeContext)!
+      expect(named.getKind('a')).toEqual({ kind: 'value', isTypeOnly: false })
+      expect(named.getKind('ExportedClass')).toEqual({
+        kind: 'class',
+        isTypeOnly: false,
+      })
+    })
+  })
+
+  describe('import kinds', () => {
+    const context = {
+      ...fakeContext,
+      settings: {
+        'import-x/extensions': ['.ts', '.mjs'],
+        'import-x/parsers': { '@typescript-eslint/parser': ['.ts'] },
+        'import-x/resolver': { 'import-x': { extensions: ['.ts', '.mjs'] } },
+      },
+    } as RuleContext
+    const pkgFile = (file: string) =>
+      testFilePath(`package-exports/node_modules/exports-pkg/dist/${file}`)
+
+    it('resolves type-only imports with the `types` condition', () => {
+      const imports = ExportMap.get(
+        './package-exports/src/type-imports',
+        context,
+      )!
+      expect(imports.errors).toHaveLength(0)
+      expect([...imports.imports.keys()].sort()).toEqual([
+        pkgFile('index.d.ts'),
+        pkgFile('index.mjs'),
+      ])
+      expect(imports.reexports.get('Reexported')!.getImport()!.path).toBe(
+        pkgFile('index.d.ts'),
+      )
+    })
+  })
+
+  describe('ambient modules', () => {
+    const context = {
+      ...fakeContext,
+      getPhysicalFilename: () => testFilePath('ambient-modules/index.js'),
+      settings: {
+        'import-x/ambient-modules': [
+          'test/fixtures/ambient-modules/types/*.d.ts',
+        ],
+      },
+    } as RuleContext
+
+    it('uses the body of the declaration', () => {
+      const imports = ExportMap.get('virtual:icons', context)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.path).toBe(testFilePath('ambient-modules/types/env.d.ts'))
+      expect([...imports.namespace.keys()]).toEqual(['icons', 'getIcon'])
+      expect(
+        imports.get<{ doc: { tags: unknown[] } }>('getIcon')!.doc.tags,
+      ).toEqual([expect.objectContaining({ title: 'deprecated' })])
+    })
+
+    it('uses the pattern with the longest prefix', () => {
+      const imports = ExportMap.get('virtual:icons/home', context)!
+      expect([...imports.namespace.keys()]).toEqual(['svg'])
+    })
+
+    it('describes the files which can not be analyzed', () => {
+      const imports = ExportMap.get('./logo.svg', context)!
+      expect([...imports.namespace.keys()]).toEqual(['default'])
+    })
+
+    it('has no exports for shorthand declarations', () => {
+      expect(ExportMap.get('virtual:routes', context)).toBeNull()
+    })
+  })
+
+  describe('single-file components', () => {
+    const context = {
+      ...fakeContext,
+      parserPath: require.resolve('espree'),
+      parserOptions: { ecmaVersion: 2020 as const },
+      settings: {
+        'import-x/extensions': ['.js', '.vue', '.svelte', '.astro'],
+        'import-x/parsers': { '@typescript-eslint/parser': ['.ts'] },
+      } as const,
+    }
+
+    it('exports the Vue component and the names of its script', () => {
+      const imports = ExportMap.get('./sfc/Options.vue', context)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.has('default')).toBe(true)
+      expect(imports.has('name')).toBe(true)
+      expect([...imports.imports.keys()]).toEqual([
+        testFilePath('sfc/labels.js'),
+      ])
+    })
+
+    it('parses `<script setup>` with the parser of its `lang`', () => {
+      const imports = ExportMap.get('./sfc/Setup.vue', context)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.has('default')).toBe(true)
+      expect(imports.has('size')).toBe(true)
+      expect(imports.has('Props')).toBe(true)
+      expect([...imports.imports.keys()]).toEqual([
+        testFilePath('sfc/Options.vue'),
+      ])
+    })
+
+    it('parses `<script>` and `<script setup>` separately', () => {
+      const imports = ExportMap.get('./sfc/Shared.vue', context)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.has('default')).toBe(true)
+      expect(imports.has('size')).toBe(true)
+      expect([...imports.imports.keys()]).toEqual([
+        testFilePath('sfc/Options.vue'),
+      ])
+    })
+
+    it('parses scripts as modules with flat config', () => {
+      const imports = ExportMap.get('./sfc/Options.vue', {
+        ...context,
+        parserPath: undefined,
+        languageOptions: {
+          parser: require(parsers.ESPREE),
+          ecmaVersion: 2020,
+          sourceType: 'script',
+          parserOptions: { sourceType: 'script' },
+        },
+      } as unknown as RuleContext)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.has('name')).toBe(true)
+    })
+
+    it('only exports the module script of Svelte components', () => {
+      const imports = ExportMap.get('./sfc/Widget.svelte', context)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.has('default')).toBe(true)
+      expect(imports.has('preload')).toBe(true)
+      expect(imports.has('size')).toBe(false)
+      expect([...imports.imports.keys()]).toEqual([
+        testFilePath('sfc/labels.js'),
+      ])
+    })
+
+    it('exports the frontmatter of Astro components', () => {
+      const imports = ExportMap.get('./sfc/Page.astro', context)!
+      expect(imports.errors).toHaveLength(0)
+      expect(imports.has('default')).toBe(true)
+      expect(imports.has('prerender')).toBe(true)
+      // locations are the ones of the component
+      const [{ declarations }] = imports.imports.values()
+      expect([...declarations][0].source.loc.start.line).toBe(2)
+    })
+  })
+
+  describe('cache invalidation', () => {
+    const source = testFilePath('invalidation.js')
+
+    function invalidationContext(
+      invalidation: 'mtime' | 'content-hash' | 'trust',
+    ) {
+      return {
+        ...fakeContext,
+        settings: { 'import-x/cache': { invalidation } },
+      } as RuleContext
+    }
+
+    /**
+     * rewrite the file while keeping its modification time, like a fresh checkout
+     */
+    function rewrite(content: string) {
+      const { atime, mtime } = fs.statSync(source)
+      fs.writeFileSync(source, content)
+      fs.utimesSync(source, atime, mtime)
+    }
+
+    beforeEach(() => {
+      fs.writeFileSync(source, 'export const foo = 1')
+    })
+
+    afterEach(() => {
+      fs.unlinkSync(source)
+    })
+
+    it('uses modification time by default', () => {
+      const context = invalidationContext('mtime')
+      const first = ExportMap.get('./invalidation', context)!
+      expect(first.has('foo')).toBe(true)
+
+      rewrite('export const bar = 1')
+      expect(ExportMap.get('./invalidation', context)).toBe(first)
+    })
+
+    it('compares content hashes with `content-hash`', () => {
+      const context = invalidationContext('content-hash')
+      const first = ExportMap.get('./invalidation', context)!
+      expect(first.has('foo')).toBe(true)
+
+      const newDate = new Date(Date.now() + 1000)
+      fs.utimesSync(source, newDate, newDate)
+      expect(ExportMap.get('./invalidation', context)).toBe(first)
+
+      rewrite('export const bar = 1')
+      const second = ExportMap.get('./invalidation', context)!
+      expect(second).not.toBe(first)
+      expect(second.has('bar')).toBe(true)
+    })
+
+    it('never revalidates with `trust`', () => {
+      const context = invalidationContext('trust')
+      const first = ExportMap.get('./invalidation', context)!
+      expect(first.has('foo')).toBe(true)
+
+      fs.writeFileSync(source, 'export const bar = 1')
+      const statSpy = jest.spyOn(fs, 'statSync')
+      try {
+        expect(ExportMap.get('./invalidation', context)).toBe(first)
+        expect(statSpy).not.toHaveBeenCalled()
+      } finally {
+        statSpy.mockRestore()
+      }
+    })
+  })
+
+  describe('persistent cache', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(`${os.tmpdir()}/import-x-`)
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    /**
+     * a fresh copy of the module has an empty in-memory cache, like a new process
+     */
+    function freshExportMap() {
+      let FreshExportMap!: typeof ExportMap
+      jest.isolateModules(() => {
+        ;({ ExportMap: FreshExportMap } = require('../../src/export-map'))
+      })
+      return FreshExportMap
+    }
+
+    function persistentContext() {
+      return {
+        ...fakeContext,
+        settings: { 'import-x/cache': { dir } },
+      } as RuleContext
+    }
+
+    it('is not written unless enabled', () => {
+      freshExportMap().get('./named-exports', fakeContext)
+      expect(fs.readdirSync(dir)).toHaveLength(0)
+    })
+
+    it('restores export maps across processes without parsing again', () => {
+      const first = freshExportMap().get('./deprecated', persistentContext())!
+      expect(fs.readdirSync(dir)).not.toHaveLength(0)
+
+      const FreshExportMap = freshExportMap()
+      const parseSpy = jest.spyOn(FreshExportMap, 'parse')
+      const restored = FreshExportMap.get('./deprecated', persistentContext())!
+
+      expect(parseSpy).not.toHaveBeenCalled()
+      expect(restored).not.toBe(first)
+      expect(restored.errors).toHaveLength(0)
+      expect(restored.parseGoal).toBe(first.parseGoal)
+      expect([...restored.namespace.keys()]).toEqual([
+        ...first.namespace.keys(),
+      ])
+      expect(restored.get('fn')).toEqual(first.get('fn'))
+      expect(restored.getKind('fn')).toEqual({
+        kind: 'function',
+        isTypeOnly: false,
+      })
+      expect(restored.doc).toEqual(first.doc)
+    })
+
+    it('restores re-exports, star exports and namespaces', () => {
+      freshExportMap().get('./export-all', persistentContext())
+      freshExportMap().get('./deep/a', persistentContext())
+
+      const FreshExportMap = freshExportMap()
+      const parseSpy = jest.spyOn(FreshExportMap, 'parse')
+
+      const exportAll = FreshExportMap.get('./export-all', persistentContext())!
+      expect(exportAll.has('foo')).toBe(true)
+      expect(exportAll.imports.size).toBe(1)
+
+      const a = FreshExportMap.get('./deep/a', persistentContext())!
+      expect(a.get<{ namespace: ExportMap }>('b')!.namespace.has('c')).toBe(
+        true,
+      )
+
+      expect(parseSpy).not.toHaveBeenCalledWith(
+        testFilePath('export-all.js'),
+        expect.anything(),
+        expect.anything(),
+      )
+    })
+
+    it('is keyed by file content', () => {
+      const source = testFilePath('persistent-cache.js')
+      fs.writeFileSync(source, 'export const foo = 1')
+      try {
+        expect(
+          freshExportMap()
+            .get('./persistent-cache', persistentContext())!
+            .has('foo'),
+        ).toBe(true)
+
+        fs.writeFileSync(source, 'export const bar = 1')
+        const changed = freshExportMap().get(
+          './persistent-cache',
+          persistentContext(),
+        )!
+        expect(changed.has('foo')).toBe(false)
+        expect(changed.has('bar')).toBe(true)
+      } finally {
+        fs.unlinkSync(source)
+      }
+    })
+
+    it('is keyed by the parser and language options of flat config', () => {
+      const espree = require(parsers.ESPREE)
+      function flatContext(
+        parser: object,
+        languageOptions?: RuleContext['languageOptions'],
+      ) {
+        return {
+          ...persistentContext(),
+          parserPath: undefined,
+          parserOptions: {},
+          languageOptions: { ...languageOptions, parser },
+        } as unknown as RuleContext
+      }
+
+      freshExportMap().get('./named-exports', flatContext(espree))
+
+      function parses(context: RuleContext) {
+        const FreshExportMap = freshExportMap()
+        const parseSpy = jest.spyOn(FreshExportMap, 'parse')
+        FreshExportMap.get('./named-exports', context)
+        return parseSpy.mock.calls.length > 0
+      }
+
+      expect(parses(flatContext(espree))).toBe(false)
+      expect(parses(flatContext({ ...espree, version: '0.0.0' }))).toBe(true)
+      expect(
+        parses(
+          flatContext(espree, { ecmaVersion: 2015, sourceType: 'module' }),
+        ),
+      ).toBe(true)
+    })
+  })
+
   // todo: move to utils
   describe('unambiguous regex', () => {
     const testFiles = [
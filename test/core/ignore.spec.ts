@@ -5,7 +5,7 @@ import {
   hasValidExtension,
 } from '../../src/utils/ignore'
 
-import { testContext } from '../utils'
+import { testContext, testFilePath } from '../utils'
 
 describe('ignore', () => {
   describe('isIgnored', () => {
@@ -38,6 +38,71 @@ describe('ignore', () => {
         true,
       )
     })
+
+    it('ignores paths matching regexes', () => {
+      const context = testContext({
+        'import-x/ignore': ['node_modules', '\\.coffee\\.js$'],
+      })
+
+      expect(
+        isIgnored(testFilePath('node_modules/foo/index.js'), context),
+      ).toBe(true)
+      expect(isIgnored(testFilePath('bar.coffee.js'), context)).toBe(true)
+      expect(isIgnored(testFilePath('foo.js'), context)).toBe(false)
+
+      // not a glob, `/*` matches any number of slashes
+      expect(
+        isIgnored(
+          testFilePath('nested/node_modules/foo/index.js'),
+          testContext({ 'import-x/ignore': ['node_modules/*'] }),
+        ),
+      ).toBe(true)
+    })
+
+    it('ignores paths matching globs relative to the nearest package root', () => {
+      const context = testContext({
+        'import-x/ignore': ['glob:node_modules/**', 'glob:*.coffee.js'],
+      })
+
+      expect(
+        isIgnored(testFilePath('node_modules/foo/index.js'), context),
+      ).toBe(true)
+      expect(isIgnored(testFilePath('bar.coffee.js'), context)).toBe(true)
+      expect(isIgnored(testFilePath('nested/bar.coffee.js'), context)).toBe(
+        false,
+      )
+      expect(isIgnored(testFilePath('foo.js'), context)).toBe(false)
+    })
+
+    it('re-includes paths matching negated globs', () => {
+      const context = testContext({
+        'import-x/ignore': [
+          'node_modules',
+          'glob:!node_modules/@org/**',
+          'glob:node_modules/@org/*/dist/**',
+        ],
+      })
+
+      expect(
+        isIgnored(testFilePath('node_modules/foo/index.js'), context),
+      ).toBe(true)
+      expect(
+        isIgnored(testFilePath('node_modules/@org/foo/index.js'), context),
+      ).toBe(false)
+      expect(
+        isIgnored(testFilePath('node_modules/@org/foo/dist/index.js'), context),
+      ).toBe(true)
+
+      // the last matching pattern wins
+      expect(
+        isIgnored(
+          testFilePath('node_modules/@org/foo/index.js'),
+          testContext({
+            'import-x/ignore': ['glob:!node_modules/@org/**', 'node_modules'],
+          }),
+        ),
+      ).toBe(true)
+    })
   })
 
   describe('hasValidExtension', () => {
@@ -0,0 +1,90 @@
+import fs from 'fs'
+
+import { ExportMap } from '../../src/export-map'
+import type { RuleContext } from '../../src/types'
+import { clearCaches, invalidate } from '../../src/utils/invalidate'
+import { getCacheStats } from '../../src/utils/module-cache'
+import { resolve } from '../../src/utils/resolve'
+
+import { testContext, testFilePath } from '../utils'
+
+describe('invalidate', () => {
+  const source = testFilePath('invalidate-source.js')
+  const dependent = testFilePath('invalidate-dependent.js')
+
+  // never revalidated on their own, to observe invalidation only
+  const context = {
+    ...testContext({
+      'import-x/cache': { lifetime: Infinity, invalidation: 'trust' },
+    }),
+    parserPath: '@babel/eslint-parser',
+  } as RuleContext
+
+  beforeEach(() => {
+    fs.writeFileSync(source, 'export const foo = 1')
+    fs.writeFileSync(dependent, "export * from './invalidate-source'")
+  })
+
+  afterEach(() => {
+    fs.rmSync(source, { force: true })
+    fs.rmSync(dependent, { force: true })
+  })
+
+  it('drops the export maps of the given paths and their dependents', () => {
+    const first = ExportMap.get('./invalidate-source', context)!
+    const firstDependent = ExportMap.get('./invalidate-dependent', context)!
+    const unrelated = ExportMap.get('./named-exports', context)!
+
+    fs.writeFileSync(source, 'export const bar = 1')
+    expect(ExportMap.get('./invalidate-source', context)).toBe(first)
+
+    invalidate(source)
+
+    const second = ExportMap.get('./invalidate-source', context)!
+    expect(second).not.toBe(first)
+    expect(second.has('bar')).toBe(true)
+    expect(ExportMap.get('./invalidate-dependent', context)).not.toBe(
+      firstDependent,
+    )
+    expect(ExportMap.get('./named-exports', context)).toBe(unrelated)
+  })
+
+  it('accepts relative paths', () => {
+    const first = ExportMap.get('./invalidate-source', context)!
+
+    invalidate(['test/fixtures/invalidate-source.js'])
+
+    expect(ExportMap.get('./invalidate-source', context)).not.toBe(first)
+  })
+
+  it('drops resolutions to deleted files and failed resolutions', () => {
+    expect(resolve('./invalidate-source', context)).toBe(source)
+    expect(resolve('./invalidate-created', context)).toBeUndefined()
+
+    fs.rmSync(source)
+    fs.renameSync(dependent, testFilePath('invalidate-created.js'))
+    try {
+      expect(resolve('./invalidate-source', context)).toBe(source)
+      expect(resolve('./invalidate-created', context)).toBeUndefined()
+
+      invalidate([source, testFilePath('invalidate-created.js')])
+
+      expect(resolve('./invalidate-source', context)).toBeUndefined()
+      expect(resolve('./invalidate-created', context)).toBe(
+        testFilePath('invalidate-created.js'),
+      )
+    } finally {
+      fs.rmSync(testFilePath('invalidate-created.js'))
+    }
+  })
+
+  it('clears every cache', () => {
+    ExportMap.get('./named-exports', context)
+
+    clearCaches()
+
+    for (const stats of Object.values(getCacheStats())) {
+      expect(stats.size).toBe(0)
+    }
+  })
+})
@@ -0,0 +1,87 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { listFilesToProcess } from '../../src/utils/list-files'
+
+describe('listFilesToProcess', () => {
+  let dir: string
+
+  function write(file: string, content = '') {
+    const filepath = path.join(dir, file)
+    fs.mkdirSync(path.dirname(filepath), { recursive: true })
+    fs.writeFileSync(filepath, content)
+  }
+
+  function list(patterns: string[], extensions = ['.js']) {
+    return listFilesToProcess(patterns, extensions, dir)
+      .map(file => path.relative(dir, file).split(path.sep).join('/'))
+      .sort()
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(`${os.tmpdir()}/import-x-`)
+    write('src/a.js')
+    write('src/b.ts')
+    write('src/nested/c.js')
+    write('src/.hidden.js')
+    write('src/node_modules/dep/index.js')
+    write('src/generated/d.js')
+    write('src/vendor/e.js')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('walks folders for the files with the extensions', () => {
+    expect(list(['src'])).toEqual(
+      [
+        'src/generated/d.js',
+        'src/nested/c.js',
+        'src/a.js',
+        'src/vendor/e.js',
+      ].sort(),
+    )
+    expect(list(['src'], ['.ts'])).toEqual(['src/b.ts'])
+  })
+
+  it('matches globs', () => {
+    expect(list(['src/*.js'])).toEqual(['src/a.js'])
+    expect(list(['**/nested/**'])).toEqual(['src/nested/c.js'])
+    expect(list([path.join(dir, 'src/{a,nested/c}.js')])).toEqual([
+      'src/a.js',
+      'src/nested/c.js',
+    ])
+  })
+
+  it('walks hidden folders only when a glob names them', () => {
+    write('.storybook/main.js')
+    write('src/.storybook/preview.js')
+    expect(list(['.'])).not.toContain('.storybook/main.js')
+    expect(list(['**/*.js'])).not.toContain('src/.storybook/preview.js')
+    expect(list(['{.storybook,src}/*.js'])).toEqual([
+      '.storybook/main.js',
+      'src/a.js',
+    ])
+    expect(list(['**/.storybook/*.js'])).toEqual([
+      '.storybook/main.js',
+      'src/.storybook/preview.js',
+    ])
+  })
+
+  it('skips the files of .gitignore and .eslintignore', () => {
+    write('.gitignore', 'generated/\n')
+    write('.eslintignore', 'src/vendor\n')
+    expect(list(['src'])).toEqual(['src/a.js', 'src/nested/c.js'])
+    expect(list(['src/**/*.js'])).toEqual(['src/a.js', 'src/nested/c.js'])
+  })
+
+  it('keeps the files listed explicitly', () => {
+    write('.eslintignore', 'src/vendor\n')
+    expect(list(['src/vendor/e.js', 'src/b.ts', 'src/missing.js'])).toEqual([
+      'src/b.ts',
+      'src/vendor/e.js',
+    ])
+  })
+})
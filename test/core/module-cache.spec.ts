@@ -0,0 +1,60 @@
+import { ModuleCache, getCacheStats } from '../../src/utils/module-cache'
+
+describe('ModuleCache', () => {
+  const settings = ModuleCache.getSettings({})
+
+  it('parses lifetimes', () => {
+    expect(settings).toMatchObject({ lifetime: 30, negativeLifetime: 30 })
+    expect(
+      ModuleCache.getSettings({
+        'import-x/cache': { lifetime: '∞', negativeLifetime: 'Infinity' },
+      }),
+    ).toMatchObject({ lifetime: Infinity, negativeLifetime: Infinity })
+  })
+
+  it('is unbounded by default', () => {
+    const cache = new ModuleCache()
+    for (let i = 0; i < 100; i++) {
+      cache.set(i, i, settings)
+    }
+    expect(cache.map.size).toBe(100)
+    expect(cache.stats.evictions).toBe(0)
+  })
+
+  it('evicts the least recently used entries beyond `maxEntries`', () => {
+    const cache = new ModuleCache()
+    const bounded = { ...settings, maxEntries: 2 }
+
+    cache.set('a', 1, bounded)
+    cache.set('b', 2, bounded)
+    expect(cache.get('a', bounded)).toBe(1)
+
+    cache.set('c', 3, bounded)
+    expect(cache.get('b', bounded)).toBeUndefined()
+    expect(cache.get('a', bounded)).toBe(1)
+    expect(cache.get('c', bounded)).toBe(3)
+    expect(cache.getStats()).toEqual({
+      size: 2,
+      hits: 3,
+      misses: 1,
+      evictions: 1,
+    })
+  })
+
+  it('counts stale entries as misses', () => {
+    const cache = new ModuleCache()
+    cache.set('a', 1)
+    expect(cache.get('a', { lifetime: 0 })).toBeUndefined()
+    expect(cache.stats).toEqual({ hits: 0, misses: 1, evictions: 0 })
+  })
+
+  it('reports the statistics of named caches', () => {
+    const cache = new ModuleCache(new Map(), { name: 'module-cache-spec' })
+    cache.set('a', 1)
+    cache.get('a', settings)
+
+    expect(getCacheStats()).toMatchObject({
+      'module-cache-spec': { size: 1, hits: 1, misses: 0, evictions: 0 },
+    })
+  })
+})
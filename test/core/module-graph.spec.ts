@@ -0,0 +1,183 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { ModuleGraph } from '../../src/module-graph'
+import type { ModuleEdge } from '../../src/module-graph'
+import type { RuleContext } from '../../src/types'
+import { invalidate } from '../../src/utils/invalidate'
+
+import { parsers, testFilePath } from '../utils'
+
+describe('ModuleGraph', () => {
+  const file = (name: string) => testFilePath(`module-graph/${name}.ts`)
+
+  const context = {
+    getFilename: () => file('a'),
+    parserPath: parsers.TS,
+    settings: {
+      'import-x/extensions': ['.ts'],
+      'import-x/parsers': { [parsers.TS]: ['.ts'] },
+      'import-x/resolver': { node: { extensions: ['.ts'] } },
+    },
+  } as unknown as RuleContext
+
+  const runtimeOnly = ({ kind }: ModuleEdge) =>
+    kind !== 'type' && kind !== 'dynamic'
+
+  it('is shared by contexts with the same settings and parser', () => {
+    expect(ModuleGraph.for(context)).toBe(
+      ModuleGraph.for({ ...context, getFilename: () => file('b') }),
+    )
+    expect(ModuleGraph.for(context)).not.toBe(
+      ModuleGraph.for({ ...context, settings: {} }),
+    )
+  })
+
+  it('is not shared by flat configs with different parsers', () => {
+    const flatContext = (parser: object) =>
+      ({
+        ...context,
+        parserPath: undefined,
+        languageOptions: { parser },
+      }) as unknown as RuleContext
+    const parser = require(parsers.TS)
+
+    expect(ModuleGraph.for(flatContext(parser))).toBe(
+      ModuleGraph.for(flatContext(parser)),
+    )
+    expect(ModuleGraph.for(flatContext(parser))).not.toBe(
+      ModuleGraph.for(flatContext({ ...parser })),
+    )
+  })
+
+  it('lists the dependencies of a file with their kind', () => {
+    const graph = ModuleGraph.for(context)
+
+    expect(
+      graph
+        .dependencies(file('b'))
+        .map(({ from, to, kind, source, specifiers }) => ({
+          from,
+          to,
+          kind,
+          source: source.value,
+          specifiers: [...specifiers],
+        })),
+    ).toEqual([
+      {
+        from: file('b'),
+        to: file('c'),
+        kind: 'import',
+        source: './c',
+        specifiers: ['c'],
+      },
+      {
+        from: file('b'),
+        to: file('d'),
+        kind: 'reexport',
+        source: './d',
+        specifiers: ['d'],
+      },
+    ])
+    expect(graph.dependencies(file('a')).map(({ kind }) => kind)).toEqual([
+      'import',
+      'type',
+    ])
+    expect(graph.dependencies(file('d')).map(({ kind }) => kind)).toEqual([
+      'dynamic',
+    ])
+  })
+
+  it('finds the reachable files', () => {
+    const graph = ModuleGraph.for(context)
+
+    expect(graph.reachable(file('c'))).toEqual(
+      new Set(['c', 'a', 'b', 'types', 'd'].map(file)),
+    )
+    expect(graph.reachable(file('d'), runtimeOnly)).toEqual(
+      new Set([file('d')]),
+    )
+  })
+
+  it('lists the dependents among the loaded files', () => {
+    const graph = ModuleGraph.for(context)
+    graph.reachable(file('a'))
+
+    expect(
+      graph
+        .dependents(file('a'))
+        .map(({ from }) => from)
+        .sort(),
+    ).toEqual(['c', 'd', 'types'].map(file))
+    expect(
+      graph.dependents(file('a'), runtimeOnly).map(({ from }) => from),
+    ).toEqual(['c', 'types'].map(file))
+  })
+
+  it('finds the strongly connected components', () => {
+    const graph = ModuleGraph.for(context)
+
+    expect(
+      graph.stronglyConnectedComponents(file('a')).map(c => c.sort()),
+    ).toEqual([['a', 'b', 'c', 'd', 'types'].map(file)])
+    expect(graph.stronglyConnectedComponents(file('a'), runtimeOnly)).toEqual([
+      ['a', 'b', 'c'].map(file),
+    ])
+    expect(graph.stronglyConnectedComponents(file('d'), runtimeOnly)).toEqual(
+      [],
+    )
+  })
+
+  it('memoizes the component of each file', () => {
+    const graph = ModuleGraph.for(context)
+    const component = graph.componentOf(file('a'), runtimeOnly, 'runtime')
+
+    expect(component).toEqual(new Set(['a', 'b', 'c'].map(file)))
+
+    const dependencies = jest.spyOn(graph, 'dependencies')
+    expect(graph.componentOf(file('b'), runtimeOnly, 'runtime')).toBe(component)
+    expect(graph.componentOf(file('d'), runtimeOnly, 'runtime')).toBeNull()
+    // `d` is re-exported by `b`, every file was visited from `a` already
+    expect(dependencies).not.toHaveBeenCalled()
+    dependencies.mockRestore()
+  })
+
+  it('recomputes the components once a file changed', () => {
+    const graph = ModuleGraph.for(context)
+    const component = graph.componentOf(file('a'), runtimeOnly, 'runtime')
+
+    invalidate(file('c'))
+
+    expect(graph.componentOf(file('a'), runtimeOnly, 'runtime')).not.toBe(
+      component,
+    )
+    expect(graph.componentOf(file('a'), runtimeOnly, 'runtime')).toEqual(
+      component,
+    )
+  })
+
+  it('checks the files of a memoized component for changes', () => {
+    const dir = fs.mkdtempSync(`${os.tmpdir()}/import-x-`)
+    const write = (name: string, content: string, mtime: Date) => {
+      fs.writeFileSync(path.join(dir, name), content)
+      fs.utimesSync(path.join(dir, name), mtime, mtime)
+    }
+    try {
+      const before = new Date(Date.now() - 60_000)
+      write('x.ts', "import { y } from './y'\nexport const x = y", before)
+      write('y.ts', "import { x } from './x'\nexport const y = x", before)
+
+      const graph = ModuleGraph.for(context)
+      const x = path.join(dir, 'x.ts')
+      expect(graph.componentOf(x, runtimeOnly, 'runtime')).toEqual(
+        new Set([x, path.join(dir, 'y.ts')]),
+      )
+
+      write('y.ts', 'export const y = 1', new Date())
+      expect(graph.componentOf(x, runtimeOnly, 'runtime')).toBeNull()
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,84 @@
+import type { PluginSettings } from '../../src/types'
+import { getFileSettings } from '../../src/utils/overrides'
+import { hasValidExtension, ignore } from '../../src/utils/ignore'
+import { relative } from '../../src/utils/resolve'
+
+import { testContext, testFilePath } from '../utils'
+
+describe('getFileSettings', () => {
+  const settings: PluginSettings = {
+    'import-x/internal-regex': '^@app/',
+    'import-x/overrides': [
+      {
+        files: 'test/fixtures/packages/**',
+        settings: { 'import-x/internal-regex': '^@pkg/' },
+      },
+      {
+        files: ['**/web/**', '**/server/**'],
+        excludedFiles: '**/*.spec.js',
+        settings: { 'import-x/core-modules': ['electron'] },
+      },
+    ],
+  }
+
+  it('returns the settings as is when no override matches', () => {
+    expect(getFileSettings(testFilePath('foo.js'), settings)).toBe(settings)
+    expect(getFileSettings(testFilePath('foo.js'), {})).toEqual({})
+  })
+
+  it('merges the matching overrides in order', () => {
+    expect(
+      getFileSettings(testFilePath('packages/web/index.js'), settings),
+    ).toEqual({
+      ...settings,
+      'import-x/internal-regex': '^@pkg/',
+      'import-x/core-modules': ['electron'],
+    })
+    expect(
+      getFileSettings(testFilePath('packages/web/index.spec.js'), settings),
+    ).toEqual({
+      ...settings,
+      'import-x/internal-regex': '^@pkg/',
+    })
+  })
+
+  it('shares the settings of files matching the same overrides', () => {
+    expect(getFileSettings(testFilePath('packages/web/a.js'), settings)).toBe(
+      getFileSettings(testFilePath('packages/server/b.js'), settings),
+    )
+  })
+
+  it('applies to the resolution of imported files', () => {
+    const overridden: PluginSettings = {
+      'import-x/resolver': 'node',
+      'import-x/overrides': [
+        {
+          files: 'test/fixtures/foo.js',
+          settings: { 'import-x/resolver': './foo-bar-resolver-v2' },
+        },
+      ],
+    }
+
+    expect(relative('./anything', testFilePath('foo.js'), overridden)).toBe(
+      testFilePath('bar.jsx'),
+    )
+    expect(
+      relative('./anything', testFilePath('exception.js'), overridden),
+    ).toBeUndefined()
+  })
+
+  it('applies to the extensions of imported files', () => {
+    const context = testContext({
+      'import-x/overrides': [
+        {
+          files: '**/*.jsx',
+          settings: { 'import-x/extensions': ['.jsx'] },
+        },
+      ],
+    })
+
+    expect(ignore(testFilePath('bar.jsx'), context)).toBe(false)
+    expect(hasValidExtension(testFilePath('bar.jsx'), context)).toBe(true)
+    expect(ignore(testFilePath('typescript.ts'), context)).toBe(true)
+  })
+})
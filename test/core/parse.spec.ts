@@ -1,5 +1,5 @@
 import fs from 'fs'
-import { parse } from '../../src/utils/parse'
+import { getDeclarationParserPath, parse } from '../../src/utils/parse'
 
 import { testFilePath } from '../utils'
 import { ChildContext, PluginSettings, RuleContext } from '../../src/types'
@@ -327,3 +327,41 @@ describe('parse(content, { settings, ecmaFeatures })', () => {
     ).not.toThrow()
   })
 })
+
+describe('getDeclarationParserPath', () => {
+  const filepath = testFilePath('index.d.ts')
+
+  it('prefers the parser of `.ts` files in `import-x/parsers`', () => {
+    expect(
+      getDeclarationParserPath(filepath, {
+        'import-x/parsers': { 'custom-parser': ['.ts'] },
+      }),
+    ).toBe('custom-parser')
+    expect(getDeclarationParserPath(filepath, {})).toBe(
+      '@typescript-eslint/parser',
+    )
+  })
+
+  it('warns once without `@typescript-eslint/parser`', () => {
+    jest.isolateModules(() => {
+      jest.doMock('../../src/utils/module-require', () => ({
+        moduleResolve() {
+          throw new Error('Cannot find module')
+        },
+      }))
+      const warn = jest.spyOn(console, 'warn').mockReturnValue()
+      try {
+        const {
+          getDeclarationParserPath: isolated,
+        }: typeof import('../../src/utils/parse') = require('../../src/utils/parse')
+        expect(isolated(filepath, {})).toBeNull()
+        expect(isolated(filepath, {})).toBeNull()
+        expect(warn).toHaveBeenCalledTimes(1)
+        expect(warn.mock.calls[0][0]).toContain('@typescript-eslint/parser')
+      } finally {
+        warn.mockRestore()
+        jest.dontMock('../../src/utils/module-require')
+      }
+    })
+  })
+})
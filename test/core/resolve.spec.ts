@@ -8,7 +8,10 @@ import semver from 'semver'
 
 import {
   CASE_SENSITIVE_FS,
+  explainResolution,
   fileExistsWithCaseSync,
+  formatResolutionTrace,
+  fullResolve,
   resolve,
 } from '../../src/utils/resolve'
 
@@ -133,6 +136,259 @@ describe('resolve', () => {
     expect(testContextReports.length).toBe(0)
   })
 
+  it('resolves via a custom resolver with interface version 3', () => {
+    const context = testContext({
+      'import-x/resolver': './foo-bar-resolver-v3',
+    })
+
+    expect(
+      resolve('../fixtures/foo', {
+        ...context,
+        getFilename: () => testFilePath('foo.js'),
+      }),
+    ).toBe(testFilePath('./bar.jsx'))
+
+    expect(
+      resolve(
+        '../fixtures/foo',
+        {
+          ...context,
+          getFilename: () => testFilePath('foo.js'),
+        },
+        'require',
+      ),
+    ).toBe(testFilePath('./bar.js'))
+
+    expect(
+      resolve('../fixtures/not-found', {
+        ...context,
+        getFilename: () => testFilePath('not-found.js'),
+      }),
+    ).toBeUndefined()
+  })
+
+  it('returns the metadata of interface version 3 resolvers', () => {
+    const settings = { 'import-x/resolver': './foo-bar-resolver-v3' }
+
+    expect(
+      fullResolve('../fixtures/foo', testFilePath('foo.js'), settings, {
+        importKind: 'require',
+      }),
+    ).toEqual({
+      found: true,
+      path: testFilePath('./bar.js'),
+      packageName: 'foo-bar',
+      packageRoot: testFilePath('.'),
+      moduleFormat: 'cjs',
+      isDeclarationFile: false,
+    })
+  })
+
+  it('passes a context to interface version 3 resolvers', () => {
+    const settings = { 'import-x/resolver': './foo-bar-resolver-v3' }
+    const parserOptions = { tsconfigRootDir: testFilePath('.') }
+
+    fullResolve('./bar', testFilePath('context.js'), settings, {
+      importKind: 'type',
+      parserOptions,
+    })
+
+    const { lastContext } = require('../fixtures/foo-bar-resolver-v3')
+    expect(lastContext).toMatchObject({
+      settings,
+      parserOptions,
+      importKind: 'type',
+      conditionNames: ['types', 'import', 'default'],
+    })
+    expect(lastContext.tsconfigPath).toBe(path.resolve('test/tsconfig.json'))
+  })
+
+  describe('built-in resolver', () => {
+    const settings = { 'import-x/resolver': 'import-x' }
+    const fixture = (...segments: string[]) =>
+      testFilePath(path.join('package-exports', ...segments))
+    const sourceFile = fixture('src', 'index.js')
+    const pkgFile = (...segments: string[]) =>
+      fixture('node_modules', 'exports-pkg', ...segments)
+
+    const resolvePath = (
+      modulePath: string,
+      options?: Parameters<typeof fullResolve>[3],
+      resolverSettings: Record<string, unknown> = settings,
+    ) => fullResolve(modulePath, sourceFile, resolverSettings, options).path
+
+    it('resolves relative files and directories', () => {
+      expect(resolvePath('./internal')).toBe(fixture('src', 'internal.js'))
+      expect(resolvePath('./utils/path.js')).toBe(
+        fixture('src', 'utils', 'path.js'),
+      )
+      expect(resolvePath('../node_modules/legacy-pkg')).toBe(
+        fixture('node_modules', 'legacy-pkg', 'out', 'main.js'),
+      )
+      expect(resolvePath('./not-found')).toBeUndefined()
+    })
+
+    it('resolves core modules', () => {
+      expect(fullResolve('fs', sourceFile, settings)).toEqual({
+        found: true,
+        path: null,
+      })
+    })
+
+    it('uses the conditions of the import kind for `exports`', () => {
+      expect(resolvePath('exports-pkg')).toBe(pkgFile('dist', 'index.mjs'))
+      expect(resolvePath('exports-pkg', { importKind: 'require' })).toBe(
+        pkgFile('dist', 'index.cjs'),
+      )
+      expect(resolvePath('exports-pkg', { importKind: 'type' })).toBe(
+        pkgFile('dist', 'index.d.ts'),
+      )
+    })
+
+    it('resolves subpath patterns and respects excluded subpaths', () => {
+      expect(resolvePath('exports-pkg/features/a')).toBe(
+        pkgFile('dist', 'features', 'a.js'),
+      )
+      expect(resolvePath('exports-pkg/features/private/secret')).toBeUndefined()
+      expect(resolvePath('exports-pkg/out/index.js')).toBeUndefined()
+      expect(resolvePath('exports-pkg/package.json')).toBe(
+        pkgFile('package.json'),
+      )
+    })
+
+    it('falls back to `main` and extensions without `exports`', () => {
+      expect(resolvePath('legacy-pkg')).toBe(
+        fixture('node_modules', 'legacy-pkg', 'out', 'main.js'),
+      )
+      expect(resolvePath('legacy-pkg/out/util')).toBe(
+        fixture('node_modules', 'legacy-pkg', 'out', 'util.js'),
+      )
+    })
+
+    it('resolves scoped packages with custom conditions', () => {
+      const scoped = (file: string) =>
+        fixture('node_modules', '@scope', 'scoped-pkg', file)
+      expect(resolvePath('@scope/scoped-pkg/sub')).toBe(scoped('sub.js'))
+      expect(
+        resolvePath('@scope/scoped-pkg/sub', undefined, {
+          'import-x/resolver': { 'import-x': { conditions: ['browser'] } },
+        }),
+      ).toBe(scoped('browser.js'))
+    })
+
+    it('resolves `imports` and self-references', () => {
+      expect(resolvePath('#internal')).toBe(fixture('src', 'internal.js'))
+      expect(resolvePath('#utils/path')).toBe(
+        fixture('src', 'utils', 'path.js'),
+      )
+      expect(resolvePath('#dep')).toBe(pkgFile('dist', 'index.mjs'))
+      expect(resolvePath('#missing')).toBeUndefined()
+      expect(resolvePath('package-exports')).toBe(fixture('src', 'index.js'))
+    })
+
+    it('returns the package metadata', () => {
+      expect(
+        fullResolve('exports-pkg', sourceFile, settings, {
+          importKind: 'type',
+        }),
+      ).toEqual({
+        found: true,
+        path: pkgFile('dist', 'index.d.ts'),
+        packageName: 'exports-pkg',
+        packageRoot: pkgFile(),
+        moduleFormat: 'cjs',
+        isDeclarationFile: true,
+      })
+      expect(fullResolve('#internal', sourceFile, settings)).toMatchObject({
+        path: fixture('src', 'internal.js'),
+        moduleFormat: 'esm',
+      })
+    })
+  })
+
+  describe('explainResolution', () => {
+    it('records every resolver tried', () => {
+      const settings = {
+        'import-x/resolver': [
+          './foo-bar-resolver-v1',
+          { node: { extensions: ['.js'] } },
+        ],
+      }
+
+      const trace = explainResolution(
+        '../fixtures/explained',
+        testFilePath('exception.js'),
+        settings,
+      )
+
+      expect(trace).toMatchObject({
+        modulePath: '../fixtures/explained',
+        sourceFile: testFilePath('exception.js'),
+        cacheHit: false,
+        coreModule: false,
+        resolvers: [
+          {
+            name: './foo-bar-resolver-v1',
+            config: null,
+            interfaceVersion: 1,
+            result: { found: false },
+            error: new Error(
+              'foo-bar-resolver-v1 resolveImport test exception',
+            ),
+          },
+          {
+            name: 'node',
+            config: { extensions: ['.js'] },
+            interfaceVersion: 2,
+            result: { found: false },
+          },
+        ],
+        result: { found: false },
+      })
+      expect(trace.resolvers[0].duration).toBeGreaterThanOrEqual(0)
+      expect(formatResolutionTrace(trace)).toMatch(
+        /^\.\/foo-bar-resolver-v1 \(v1\): not found in [\d.]+ms, threw: foo-bar-resolver-v1 resolveImport test exception\nnode \(v2, {"extensions":\["\.js"]}\): not found in [\d.]+ms$/,
+      )
+    })
+
+    it('reports cache hits', () => {
+      const settings = { 'import-x/resolver': './foo-bar-resolver-v2' }
+
+      const first = explainResolution(
+        '../fixtures/explained',
+        testFilePath('foo.js'),
+        settings,
+      )
+      expect(first.cacheHit).toBe(false)
+      expect(first.resolvers).toHaveLength(1)
+
+      const second = explainResolution(
+        '../fixtures/explained',
+        testFilePath('foo.js'),
+        settings,
+      )
+      expect(second).toMatchObject({
+        cacheHit: true,
+        resolvers: [],
+        result: { found: true, path: testFilePath('./bar.jsx') },
+      })
+      expect(formatResolutionTrace(second)).toBe(
+        `cached: ${testFilePath('./bar.jsx')}`,
+      )
+    })
+
+    it('reports core modules from settings', () => {
+      const trace = explainResolution('electron', testFilePath('foo.js'), {
+        'import-x/core-modules': ['electron'],
+      })
+      expect(trace).toMatchObject({
+        coreModule: true,
+        resolvers: [],
+        result: { found: true, path: null },
+      })
+    })
+  })
+
   it('respects import-x/resolver as array of strings', () => {
     const context = testContext({
       'import-x/resolver': ['./foo-bar-resolver-v2', './foo-bar-resolver-v1'],
@@ -598,7 +854,7 @@ describe('resolve', () => {
 
   describe('rename cache correctness', () => {
     const context = testContext({
-      'import-x/cache': { lifetime: 1 },
+      'import-x/cache': { lifetime: 1, negativeLifetime: 0 },
     })
 
     const infiniteContexts = (['∞', 'Infinity'] as const).map(
@@ -645,7 +901,7 @@ describe('resolve', () => {
           expect(resolve(original, context)).toBeDefined()
         })
 
-        it('gets updated values immediately', () => {
+        it('gets updated values immediately without negative caching', () => {
           // get cached values initially
           expect(resolve(changed, context)).toBeDefined()
         })
@@ -675,4 +931,119 @@ describe('resolve', () => {
       })
     })
   })
+
+  describe('negative cache', () => {
+    const file = testFilePath('negative-cache.js')
+
+    afterEach(() => fs.promises.rm(file, { force: true }))
+
+    it('caches failed resolutions for the configured lifetime', async () => {
+      const context = testContext({ 'import-x/cache': { lifetime: 1 } })
+
+      expect(resolve('./negative-cache', context)).toBeUndefined()
+      await fs.promises.writeFile(file, '')
+      expect(resolve('./negative-cache', context)).toBeUndefined()
+
+      await setTimeout(1000)
+      expect(resolve('./negative-cache', context)).toBe(file)
+    })
+
+    it('uses `negativeLifetime` for failed resolutions only', async () => {
+      const context = testContext({
+        'import-x/cache': { lifetime: Infinity, negativeLifetime: 0 },
+      })
+
+      expect(resolve('./negative-cache', context)).toBeUndefined()
+      await fs.promises.writeFile(file, '')
+      expect(resolve('./negative-cache', context)).toBe(file)
+
+      await fs.promises.rm(file)
+      expect(resolve('./negative-cache', context)).toBe(file)
+    })
+
+    it('does not serve failed resolutions when explaining', () => {
+      const settings = { 'import-x/cache': { negativeLifetime: Infinity } }
+      const sourceFile = testFilePath('foo.js')
+
+      expect(fullResolve('./negative-cache', sourceFile, settings)).toEqual({
+        found: false,
+      })
+      expect(
+        explainResolution('./negative-cache', sourceFile, settings),
+      ).toMatchObject({
+        cacheHit: false,
+        resolvers: [{ name: 'node', result: { found: false } }],
+      })
+    })
+  })
+
+  describe('ambient modules', () => {
+    const sourceFile = testFilePath('ambient-modules/index.js')
+    const declarationFile = testFilePath('ambient-modules/types/env.d.ts')
+    const settings = {
+      'import-x/ambient-modules': [
+        'test/fixtures/ambient-modules/types/*.d.ts',
+      ],
+    }
+
+    it('is off by default', () => {
+      expect(fullResolve('virtual:icons', sourceFile, {})).toEqual({
+        found: false,
+      })
+    })
+
+    it('resolves declared modules to their declaration file', () => {
+      expect(fullResolve('virtual:icons', sourceFile, settings)).toEqual({
+        found: true,
+        path: declarationFile,
+        isDeclarationFile: true,
+      })
+      // shorthand declarations
+      expect(fullResolve('virtual:routes', sourceFile, settings).path).toBe(
+        declarationFile,
+      )
+    })
+
+    it('resolves wildcard patterns', () => {
+      expect(fullResolve('./missing.svg', sourceFile, settings).path).toBe(
+        declarationFile,
+      )
+      expect(fullResolve('./missing.png', sourceFile, settings)).toEqual({
+        found: false,
+      })
+    })
+
+    it('prefers the resolvers', () => {
+      expect(fullResolve('./logo.svg', sourceFile, settings).path).toBe(
+        testFilePath('ambient-modules/logo.svg'),
+      )
+    })
+
+    it('ignores module augmentations', () => {
+      expect(fullResolve('augmented', sourceFile, settings)).toEqual({
+        found: false,
+      })
+    })
+
+    it('finds the declaration files of the nearest tsconfig.json', () => {
+      const tsconfigSettings = { 'import-x/ambient-modules': true }
+      expect(
+        fullResolve('virtual:icons', sourceFile, tsconfigSettings).path,
+      ).toBe(declarationFile)
+      expect(
+        fullResolve('virtual:icons', testFilePath('foo.js'), tsconfigSettings),
+      ).toEqual({ found: false })
+    })
+
+    it('explains the ambient module found', () => {
+      const trace = explainResolution('./explained.svg', sourceFile, settings)
+      expect(trace).toMatchObject({
+        ambientModule: '*.svg',
+        result: { found: true, path: declarationFile },
+      })
+      expect(formatResolutionTrace(trace).split('\n').pop()).toBe(
+        `ambient module '*.svg': ${declarationFile}`,
+      )
+    })
+  })
 })
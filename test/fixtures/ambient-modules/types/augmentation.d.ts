@@ -0,0 +1,6 @@
+import 'bar'
+
+// augments the existing module rather than declaring one
+declare module 'augmented' {
+  export const foo: string
+}
@@ -0,0 +1,19 @@
+declare module 'virtual:icons' {
+  export const icons: string[]
+
+  /**
+   * @deprecated use `icons` instead
+   */
+  export function getIcon(name: string): string
+}
+
+declare module 'virtual:*'
+
+declare module '*.svg' {
+  const url: string
+  export default url
+}
+
+declare module 'virtual:icons/*' {
+  export const svg: string
+}
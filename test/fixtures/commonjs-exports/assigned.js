@@ -0,0 +1,15 @@
+/**
+ * @deprecated use `bar` instead
+ */
+exports.foo = 1
+
+module.exports.bar = 2
+
+exports['baz'] = 3
+
+Object.defineProperty(exports, 'qux', {
+  enumerable: true,
+  get() {
+    return exports.bar
+  },
+})
@@ -0,0 +1,23 @@
+'use strict'
+
+Object.defineProperty(exports, '__esModule', {
+  value: true,
+})
+var _exportNames = {
+  answer: true,
+}
+exports.answer = void 0
+var _assigned = require('./assigned')
+Object.keys(_assigned).forEach(function (key) {
+  if (key === 'default' || key === '__esModule') return
+  if (Object.prototype.hasOwnProperty.call(_exportNames, key)) return
+  if (key in exports && exports[key] === _assigned[key]) return
+  Object.defineProperty(exports, key, {
+    enumerable: true,
+    get: function () {
+      return _assigned[key]
+    },
+  })
+})
+const answer = 42
+exports.answer = answer
@@ -0,0 +1,5 @@
+function createApi() {
+  return { foo() {} }
+}
+
+module.exports = createApi()
@@ -0,0 +1,8 @@
+function foo() {}
+
+module.exports = {
+  foo,
+  bar: 1,
+  baz: 2,
+  qux() {},
+}
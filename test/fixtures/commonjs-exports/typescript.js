@@ -0,0 +1,13 @@
+'use strict'
+var __exportStar =
+  (this && this.__exportStar) ||
+  function (m, exports) {
+    for (var p in m)
+      if (p !== 'default' && !Object.prototype.hasOwnProperty.call(exports, p))
+        exports[p] = m[p]
+  }
+Object.defineProperty(exports, '__esModule', { value: true })
+exports.default = exports.answer = void 0
+exports.answer = 42
+exports.default = function () {}
+__exportStar(require('./object'), exports)
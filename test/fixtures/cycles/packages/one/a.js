@@ -0,0 +1,4 @@
+import { b } from 'cycles/packages/two/b'
+import { c } from './c'
+
+export const a = () => b + c
@@ -0,0 +1,3 @@
+import { a } from '../one/a'
+
+export const b = () => a
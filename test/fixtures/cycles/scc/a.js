@@ -0,0 +1,3 @@
+import { b1, b2 } from './b'
+
+export const a = b1 + b2
@@ -0,0 +1,4 @@
+import { c } from './c'
+
+export const b1 = c
+export const b2 = c
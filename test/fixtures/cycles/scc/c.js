@@ -0,0 +1,3 @@
+import './a'
+
+export const c = 1
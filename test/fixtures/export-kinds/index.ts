@@ -0,0 +1,30 @@
+import type { Options } from './types'
+import * as values from './values'
+
+export type Alias = string
+export interface Shape {
+  size: number
+}
+export const value = 1
+export function fn() {}
+export class Klass {}
+export enum Color {
+  Red,
+}
+export namespace Space {
+  export const x = 1
+}
+
+interface Local {}
+export type { Local }
+export { type Local as InlineLocal, Options, values }
+
+export interface Merged {}
+export const Merged = {}
+
+export type { Point as TypePoint } from './types'
+export { Point, format } from './types'
+export type * from './types-star'
+export * from './values'
+
+export default interface Props {}
@@ -0,0 +1,10 @@
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface Options {}
+
+export function format() {}
+
+export default format
@@ -0,0 +1 @@
+export const starredValue = 1
@@ -0,0 +1,28 @@
+var path = require('path')
+
+exports.resolve = function (modulePath, sourceFile, config, context) {
+  var sourceFileName = path.basename(sourceFile)
+  if (sourceFileName === 'foo.js') {
+    return {
+      found: true,
+      path: path.join(
+        __dirname,
+        context.importKind === 'require' ? 'bar.js' : 'bar.jsx',
+      ),
+      packageName: 'foo-bar',
+      packageRoot: __dirname,
+      moduleFormat: context.importKind === 'require' ? 'cjs' : 'esm',
+      isDeclarationFile: false,
+    }
+  }
+  if (sourceFileName === 'context.js') {
+    exports.lastContext = context
+    return { found: true, path: path.join(__dirname, 'bar.jsx') }
+  }
+  if (sourceFileName === 'exception.js') {
+    throw new Error('foo-bar-resolver-v3 resolve test exception')
+  }
+  return { found: false }
+}
+
+exports.interfaceVersion = 3
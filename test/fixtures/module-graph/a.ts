@@ -0,0 +1,4 @@
+import { b } from './b'
+import type { T } from './types'
+
+export const a: T = b
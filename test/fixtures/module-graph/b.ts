@@ -0,0 +1,4 @@
+import { c } from './c'
+
+export { d } from './d'
+export const b = c
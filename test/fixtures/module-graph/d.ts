@@ -0,0 +1,2 @@
+export const d = 1
+export const load = () => import('./a')
@@ -0,0 +1,6 @@
+import type Value from 'exports-pkg'
+import { default as value } from 'exports-pkg'
+
+export type { default as Reexported } from 'exports-pkg'
+
+export const copy: Value = value
@@ -14,6 +14,8 @@ ruleTester.run('default', rule, {
     test({ code: 'import foo from "./empty-folder";' }),
     test({ code: 'import { foo } from "./default-export";' }),
     test({ code: 'import foo from "./default-export";' }),
+    // JSON modules
+    test({ code: 'import data from "./data.json";' }),
     test({ code: 'import foo from "./mixed-exports";' }),
     test({
       code: 'import bar from "./default-export";',
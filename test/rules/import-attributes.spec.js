@@ -0,0 +1,117 @@
+import { test as _test, testFilePath, parsers } from '../utils'
+
+import { RuleTester } from 'eslint'
+
+const ruleTester = new RuleTester()
+const rule = require('rules/import-attributes')
+
+// espree does not support import attributes yet
+const test = def =>
+  _test({
+    filename: testFilePath('./import-attributes/index.js'),
+    parser: parsers.BABEL,
+    ...def,
+    parserOptions: {
+      requireConfigFile: false,
+      babelOptions: {
+        configFile: false,
+        babelrc: false,
+        parserOpts: {
+          plugins: [['importAttributes', { deprecatedAssertSyntax: true }]],
+        },
+      },
+      ...def.parserOptions,
+    },
+  })
+
+ruleTester.run('import-attributes', rule, {
+  valid: [
+    test({ code: "import data from './data.json' with { type: 'json' }" }),
+    test({ code: "import './style.css' with { type: 'css' }" }),
+    test({
+      code: "export { default } from './data.json' with { type: 'json' }",
+    }),
+    test({ code: "import('./data.json', { with: { type: 'json' } })" }),
+    // only known at runtime
+    test({ code: "import('./data.json', options)" }),
+    test({ code: "import('./data.json', { ...options })" }),
+    test({ code: "import('./data.json', { with: attributes })" }),
+    test({ code: "import { foo } from './foo'" }),
+    test({ code: "import fs from 'fs'" }),
+    // unresolved
+    test({ code: "import data from './nope.json'" }),
+    test({
+      code: "import './style.css'",
+      options: [{ types: { '.css': false } }],
+    }),
+    test({
+      code: "import './style.css'",
+      options: [{ ignore: ['\\.css$'] }],
+    }),
+    test({
+      code: "import data from './data.json' with { type: 'jsonc' }",
+      options: [{ types: { '.json': 'jsonc' } }],
+    }),
+    // not a module system with import attributes
+    test({ code: "const data = require('./data.json')" }),
+  ],
+
+  invalid: [
+    test({
+      code: "import data from './data.json'",
+      errors: [
+        {
+          message:
+            "Import of './data.json' requires the import attribute `with { type: 'json' }`.",
+          type: 'Literal',
+        },
+      ],
+    }),
+    test({
+      code: "import './style.css'",
+      errors: [
+        "Import of './style.css' requires the import attribute `with { type: 'css' }`.",
+      ],
+    }),
+    test({
+      code: "import('./data.json')",
+      errors: [
+        "Import of './data.json' requires the import attribute `with { type: 'json' }`.",
+      ],
+    }),
+    test({
+      code: "import data from './data.json' with { type: 'css' }",
+      errors: [
+        "Import of './data.json' requires the import attribute type 'json', not 'css'.",
+      ],
+    }),
+    test({
+      code: "import { foo } from './foo' with { type: 'json' }",
+      errors: [
+        "Unexpected import attribute type 'json' for the JavaScript module './foo'.",
+      ],
+    }),
+    test({
+      code: "import data from './data.json' assert { type: 'json' }",
+      output: "import data from './data.json' with { type: 'json' }",
+      errors: [
+        'Use `with` instead of the deprecated `assert` for import attributes.',
+      ],
+    }),
+    test({
+      code: "import('./data.json', { assert: { type: 'json' } })",
+      output: "import('./data.json', { with: { type: 'json' } })",
+      errors: [
+        'Use `with` instead of the deprecated `assert` for import attributes.',
+      ],
+    }),
+    test({
+      code: "import './style.css' assert { type: 'json' }",
+      output: "import './style.css' with { type: 'json' }",
+      errors: [
+        'Use `with` instead of the deprecated `assert` for import attributes.',
+        "Import of './style.css' requires the import attribute type 'css', not 'json'.",
+      ],
+    }),
+  ],
+})
@@ -421,6 +421,184 @@ ruleTester.run('named (export *)', rule, {
   ],
 })
 
+// JSON modules
+ruleTester.run('named (JSON modules)', rule, {
+  valid: [
+    test({ code: 'import data from "./data.json"' }),
+    test({
+      code: 'import { foo } from "./data.json"',
+      settings: { 'import-x/json-named-exports': true },
+    }),
+    test({
+      code: 'const { foo, bar } = require("./data.json")',
+      options: [{ commonjs: true }],
+    }),
+  ],
+  invalid: [
+    test({
+      code: 'import { foo } from "./data.json"',
+      errors: [
+        "foo not found in './data.json', JSON modules only have a default export",
+      ],
+    }),
+    test({
+      code: 'import { bar } from "./data.json"',
+      settings: { 'import-x/json-named-exports': true },
+      errors: [error('bar', './data.json')],
+    }),
+  ],
+})
+
+// CSS Modules
+ruleTester.run('named (CSS Modules)', rule, {
+  valid: [
+    test({
+      code: 'import styles from "./css-modules/Button.module.css"',
+      settings: { 'import-x/css-modules': true },
+    }),
+    test({
+      code: 'import { button } from "./css-modules/Button.module.css"',
+      settings: { 'import-x/css-modules': { namedExports: true } },
+    }),
+    // not analyzed unless enabled
+    test({ code: 'import { button } from "./css-modules/Button.module.css"' }),
+  ],
+  invalid: [
+    test({
+      code: 'import { button } from "./css-modules/Button.module.css"',
+      settings: { 'import-x/css-modules': true },
+      errors: [error('button', './css-modules/Button.module.css')],
+    }),
+    test({
+      code: 'import { buton } from "./css-modules/Button.module.css"',
+      settings: { 'import-x/css-modules': { namedExports: true } },
+      errors: [error('buton', './css-modules/Button.module.css')],
+    }),
+  ],
+})
+
+// declaration files of external modules
+ruleTester.run('named (external types)', rule, {
+  valid: [
+    test({ code: 'import { nope } from "typed-cjs"' }),
+    test({
+      code: 'import { foo, bar } from "typed-cjs"',
+      settings: { 'import-x/external-types': true },
+    }),
+    test({
+      code: 'import { parse } from "untyped-cjs"',
+      settings: { 'import-x/external-types': true },
+    }),
+  ],
+  invalid: [
+    test({
+      code: 'import { nope } from "typed-cjs"',
+      settings: { 'import-x/external-types': true },
+      errors: [error('nope', 'typed-cjs')],
+    }),
+    test({
+      code: 'import { stringify } from "untyped-cjs"',
+      settings: { 'import-x/external-types': true },
+      errors: [error('stringify', 'untyped-cjs')],
+    }),
+  ],
+})
+
+// `declare module` in declaration files
+ruleTester.run('named (ambient modules)', rule, {
+  valid: [
+    test({
+      code: 'import { icons, getIcon } from "virtual:icons"',
+      filename: testFilePath('ambient-modules/index.js'),
+      settings: { 'import-x/ambient-modules': true },
+    }),
+    test({
+      code: 'import { anything } from "virtual:routes"',
+      filename: testFilePath('ambient-modules/index.js'),
+      settings: { 'import-x/ambient-modules': true },
+    }),
+  ],
+  invalid: [
+    test({
+      code: 'import { nope } from "virtual:icons"',
+      filename: testFilePath('ambient-modules/index.js'),
+      settings: { 'import-x/ambient-modules': true },
+      errors: [error('nope', 'virtual:icons')],
+    }),
+    test({
+      code: 'import { svg } from "./logo.svg"',
+      filename: testFilePath('ambient-modules/index.js'),
+      settings: { 'import-x/ambient-modules': true },
+      errors: [error('svg', './logo.svg')],
+    }),
+  ],
+})
+
+// static CommonJS exports
+ruleTester.run('named (CommonJS exports)', rule, {
+  valid: [
+    test({ code: 'import { nope } from "./commonjs-exports/object"' }),
+    test({
+      code: 'import { foo, qux } from "./commonjs-exports/object"',
+      settings: { 'import-x/commonjs-exports': true },
+    }),
+    test({
+      code: 'const { answer, baz } = require("./commonjs-exports/typescript")',
+      options: [{ commonjs: true }],
+      settings: { 'import-x/commonjs-exports': true },
+    }),
+    test({
+      code: 'import { nope } from "./commonjs-exports/dynamic"',
+      settings: { 'import-x/commonjs-exports': true },
+    }),
+  ],
+  invalid: [
+    test({
+      code: 'import { nope } from "./commonjs-exports/object"',
+      settings: { 'import-x/commonjs-exports': true },
+      errors: [error('nope', './commonjs-exports/object')],
+    }),
+    test({
+      code: 'const { nope } = require("./commonjs-exports/assigned")',
+      options: [{ commonjs: true }],
+      settings: { 'import-x/commonjs-exports': true },
+      errors: [error('nope', './commonjs-exports/assigned')],
+    }),
+  ],
+})
+
+// single-file components
+{
+  const settings = {
+    'import-x/extensions': ['.js', '.vue', '.svelte', '.astro'],
+    'import-x/parsers': { [parsers.TS]: ['.ts'] },
+  }
+
+  ruleTester.run('named (single-file components)', rule, {
+    valid: [
+      test({
+        code: 'import Options, { name } from "./sfc/Options.vue"',
+        settings,
+      }),
+      test({ code: 'import { size } from "./sfc/Setup.vue"', settings }),
+      test({ code: 'import { preload } from "./sfc/Widget.svelte"', settings }),
+      test({ code: 'import { prerender } from "./sfc/Page.astro"', settings }),
+    ],
+    invalid: [
+      test({
+        code: 'import { size } from "./sfc/Widget.svelte"',
+        settings,
+        errors: [error('size', './sfc/Widget.svelte')],
+      }),
+      test({
+        code: 'import { nope } from "./sfc/Setup.vue"',
+        settings,
+        errors: [error('nope', './sfc/Setup.vue')],
+      }),
+    ],
+  })
+}
+
 describe('TypeScript', () => {
   const parser = parsers.TS
 
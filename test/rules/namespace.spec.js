@@ -467,3 +467,64 @@ const invalid = [].concat(
 })
 
 ruleTester.run('namespace', rule, { valid, invalid })
+
+// CSS Modules
+{
+  const settings = { 'import-x/css-modules': true }
+
+  ruleTester.run('namespace (CSS Modules)', rule, {
+    valid: [
+      test({
+        code: 'import styles from "./css-modules/Card.module.scss"; styles.card',
+        settings,
+      }),
+      test({
+        code: 'import styles from "./css-modules/Card.module.scss"; const { icon } = styles',
+        settings,
+      }),
+      test({
+        code: 'import styles from "./css-modules/Card.module.scss"; styles.cardTitle',
+        settings: {
+          'import-x/css-modules': { localsConvention: 'camelCaseOnly' },
+        },
+      }),
+      test({
+        code: 'import styles from "./css-modules/Generated.module.scss"; styles.textSmall',
+        settings,
+      }),
+      // not analyzed unless enabled
+      test({
+        code: 'import styles from "./css-modules/Card.module.scss"; styles.crad',
+      }),
+    ],
+    invalid: [
+      test({
+        code: 'import styles from "./css-modules/Card.module.scss"; styles.crad',
+        settings,
+        errors: [error('crad', 'styles')],
+      }),
+      test({
+        code: 'import styles from "./css-modules/Card.module.scss"; const { reset } = styles',
+        settings,
+        errors: [error('reset', 'styles')],
+      }),
+    ],
+  })
+}
+
+// static CommonJS exports
+ruleTester.run('namespace (CommonJS exports)', rule, {
+  valid: [
+    test({
+      code: 'import * as api from "./commonjs-exports/assigned"; api.foo',
+      settings: { 'import-x/commonjs-exports': true },
+    }),
+  ],
+  invalid: [
+    test({
+      code: 'import * as api from "./commonjs-exports/assigned"; api.nope',
+      settings: { 'import-x/commonjs-exports': true },
+      errors: [error('nope', 'api')],
+    }),
+  ],
+})
@@ -5,8 +5,14 @@ import {
   testVersion as _testVersion,
 } from '../utils'
 
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
 import { RuleTester } from 'eslint'
 
+import { invalidate } from '../../src/utils/invalidate'
+
 const ruleTester = new RuleTester()
 const rule = require('rules/no-cycle')
 
@@ -331,3 +337,253 @@ ruleTester.run('no-cycle', rule, {
     }),
   ),
 })
+
+ruleTester.run('no-cycle reportOnce', rule, {
+  valid: [
+    // not part of the component
+    _test({
+      code: "import { b1 } from './b'",
+      filename: testFilePath('./cycles/scc/d.js'),
+      options: [{ reportOnce: true }],
+    }),
+  ],
+
+  invalid: [
+    _test({
+      code: "import { b1, b2 } from './b'",
+      filename: testFilePath('./cycles/scc/a.js'),
+      options: [{ reportOnce: true }],
+      errors: [
+        {
+          message:
+            'Dependency cycle between 3 modules: a.js:1=>b.js, b.js:1=>c.js, c.js:1=>a.js',
+          line: 1,
+        },
+      ],
+    }),
+    // side-effect imports are not suggested
+    _test({
+      code: "import { b1, b2 } from './b'",
+      filename: testFilePath('./cycles/scc/a.js'),
+      options: [{ reportOnce: true, weakestEdge: true }],
+      errors: [
+        'Dependency cycle between 3 modules: a.js:1=>b.js, b.js:1=>c.js, c.js:1=>a.js. Weakest import: b.js:1=>c.js (1 name)',
+      ],
+    }),
+    _test({
+      code: 'import { foo } from "./es6/depth-one"',
+      filename: testFilePath('./cycles/depth-zero.js'),
+      options: [{ reportOnce: true }],
+      errors: [
+        'Dependency cycle between 2 modules: depth-zero.js:1=>es6/depth-one.js, es6/depth-one.js:1=>depth-zero.js',
+      ],
+    }),
+    // reported by the first file linted, even when another one sorts first
+    _test({
+      code: "import { x } from './x'",
+      filename: testFilePath('./cycles/report-once/y.js'),
+      options: [{ reportOnce: true }],
+      errors: [
+        'Dependency cycle between 2 modules: y.js:1=>x.js, x.js:1=>y.js',
+      ],
+    }),
+  ],
+})
+
+ruleTester.run('no-cycle reportOnce after the first file', rule, {
+  valid: [
+    // reported by ./scc/a.js already
+    _test({
+      code: "import { c } from './c'",
+      filename: testFilePath('./cycles/scc/b.js'),
+      options: [{ reportOnce: true }],
+    }),
+    _test({
+      code: "import './a'",
+      filename: testFilePath('./cycles/scc/c.js'),
+      options: [{ reportOnce: true }],
+    }),
+    // reported by ./report-once/y.js already
+    _test({
+      code: "import { y } from './y'",
+      filename: testFilePath('./cycles/report-once/x.js'),
+      options: [{ reportOnce: true }],
+    }),
+  ],
+  invalid: [],
+})
+
+describe('no-cycle reportOnce after a file of the component changed', () => {
+  beforeAll(() => {
+    invalidate(testFilePath('./cycles/scc/c.js'))
+  })
+
+  ruleTester.run('no-cycle', rule, {
+    valid: [],
+    invalid: [
+      _test({
+        code: "import { c } from './c'",
+        filename: testFilePath('./cycles/scc/b.js'),
+        options: [{ reportOnce: true }],
+        errors: [
+          'Dependency cycle between 3 modules: b.js:1=>c.js, c.js:1=>a.js, a.js:1=>b.js',
+        ],
+      }),
+    ],
+  })
+})
+
+// the files of the cycle are evicted from the cache of export maps while
+// checking them
+ruleTester.run('no-cycle with fewer export maps than files', rule, {
+  valid: [],
+  invalid: [
+    _test({
+      code: "import { b1, b2 } from './b'",
+      filename: testFilePath('./cycles/scc/a.js'),
+      settings: { 'import-x/cache': { maxExportMaps: 2 } },
+      errors: [error('Dependency cycle via ./c:1')],
+    }),
+  ],
+})
+
+// the same files are external to one package, and internal to the other
+ruleTester.run('no-cycle ignoreExternal across packages', rule, {
+  valid: [
+    _test({
+      code: "import { b } from 'cycles/packages/two/b'\nimport { c } from './c'",
+      filename: testFilePath('./cycles/packages/one/a.js'),
+      options: [{ ignoreExternal: true }],
+      settings: {
+        'import-x/resolver': {
+          webpack: { config: testFilePath('./webpack.config.js') },
+        },
+      },
+    }),
+  ],
+  invalid: [
+    _test({
+      code: "import { a } from '../one/a'",
+      filename: testFilePath('./cycles/packages/two/b.js'),
+      options: [{ ignoreExternal: true }],
+      settings: {
+        'import-x/resolver': {
+          webpack: { config: testFilePath('./webpack.config.js') },
+        },
+      },
+      errors: ['Dependency cycle detected.'],
+    }),
+  ],
+})
+
+ruleTester.run('no-cycle allow and baseline', rule, {
+  valid: [
+    _test({
+      code: "import { b1, b2 } from './b'",
+      filename: testFilePath('./cycles/scc/a.js'),
+      options: [{ allow: [['test/fixtures/cycles/scc/*.js']] }],
+    }),
+    _test({
+      code: "import { b1, b2 } from './b'",
+      filename: testFilePath('./cycles/scc/a.js'),
+      options: [
+        { reportOnce: true, allow: [['**/cycles/scc/{a,b}.js', '**/c.js']] },
+      ],
+    }),
+    _test({
+      code: 'import { foo } from "./es6/depth-one"',
+      filename: testFilePath('./cycles/depth-zero.js'),
+      options: [{ baseline: testFilePath('./cycles/baseline.json') }],
+    }),
+    _test({
+      code: 'import { foo } from "./es6/depth-one"',
+      filename: testFilePath('./cycles/depth-zero.js'),
+      options: [
+        { reportOnce: true, baseline: testFilePath('./cycles/baseline.json') },
+      ],
+    }),
+  ],
+
+  invalid: [
+    _test({
+      code: "import { b1, b2 } from './b'",
+      filename: testFilePath('./cycles/scc/a.js'),
+      options: [{ allow: [['test/fixtures/cycles/scc/{a,b}.js']] }],
+      errors: ['Dependency cycle via ./c:1'],
+    }),
+    _test({
+      code: 'import { foo } from "./es6/depth-two"',
+      filename: testFilePath('./cycles/depth-zero.js'),
+      options: [{ baseline: testFilePath('./cycles/baseline.json') }],
+      errors: ['Dependency cycle via ./depth-one:1'],
+    }),
+  ],
+})
+
+describe('no-cycle baseline update', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'no-cycle-'))
+  const baseline = path.join(dir, 'baseline.json')
+  const relativeFiles = (...files) =>
+    files.map(file =>
+      path.relative(dir, testFilePath(`./cycles/${file}`)).replace(/\\/g, '/'),
+    )
+
+  beforeAll(() => {
+    process.env.IMPORT_X_UPDATE_BASELINE = '1'
+    fs.writeFileSync(baseline, JSON.stringify([['other/x.js', 'other/y.js']]))
+  })
+
+  afterAll(() => {
+    delete process.env.IMPORT_X_UPDATE_BASELINE
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  ruleTester.run('no-cycle', rule, {
+    valid: [
+      _test({
+        code: "import { b1, b2 } from './b'",
+        filename: testFilePath('./cycles/scc/a.js'),
+        options: [{ baseline }],
+      }),
+    ],
+    invalid: [],
+  })
+
+  it('records the cycles found along with the known ones', () => {
+    expect(JSON.parse(fs.readFileSync(baseline, 'utf8'))).toEqual([
+      relativeFiles('scc/a.js', 'scc/b.js', 'scc/c.js'),
+      ['other/x.js', 'other/y.js'],
+    ])
+  })
+
+  it('is updated by another worker', () => {
+    fs.writeFileSync(
+      baseline,
+      JSON.stringify([
+        ...JSON.parse(fs.readFileSync(baseline, 'utf8')),
+        ['worker/p.js', 'worker/q.js'],
+      ]),
+    )
+  })
+
+  ruleTester.run('no-cycle', rule, {
+    valid: [
+      _test({
+        code: "import { y } from './y'",
+        filename: testFilePath('./cycles/report-once/x.js'),
+        options: [{ baseline }],
+      }),
+    ],
+    invalid: [],
+  })
+
+  it('keeps the cycles recorded by other workers', () => {
+    expect(JSON.parse(fs.readFileSync(baseline, 'utf8'))).toEqual([
+      relativeFiles('report-once/x.js', 'report-once/y.js'),
+      relativeFiles('scc/a.js', 'scc/b.js', 'scc/c.js'),
+      ['other/x.js', 'other/y.js'],
+      ['worker/p.js', 'worker/q.js'],
+    ])
+    expect(fs.readdirSync(dir)).toEqual(['baseline.json'])
+  })
+})
@@ -241,6 +241,24 @@ ruleTester.run('no-deprecated: hoisting', rule, {
   ],
 })
 
+ruleTester.run('no-deprecated: external types', rule, {
+  valid: [
+    test({ code: "import { bar } from 'typed-cjs'" }),
+    test({
+      code: "import { foo } from 'typed-cjs'",
+      settings: { 'import-x/external-types': true },
+    }),
+  ],
+
+  invalid: [
+    test({
+      code: "import { bar } from 'typed-cjs'",
+      settings: { 'import-x/external-types': true },
+      errors: ['Deprecated: use `foo` instead'],
+    }),
+  ],
+})
+
 describe('TypeScript', () => {
   const parser = parsers.TS
 
@@ -15,6 +15,11 @@ ruleTester.run('no-named-as-default-member', rule, {
     test({
       code: 'import foo from "./default-export-default-property"; const a = foo.default',
     }),
+    // the default export of CommonJS modules has their named exports
+    test({
+      code: 'import api from "./commonjs-exports/object"; api.foo()',
+      settings: { 'import-x/commonjs-exports': true },
+    }),
 
     // es2022: Arbitrary module namespace identifier names
     testVersion('>= 8.7', () => ({
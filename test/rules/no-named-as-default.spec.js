@@ -18,6 +18,12 @@ ruleTester.run('no-named-as-default', rule, {
     // #566: don't false-positive on `default` itself
     test({ code: 'export default from "./bar";', parser: parsers.BABEL }),
 
+    // the default export of CommonJS modules has their named exports
+    test({
+      code: 'import foo from "./commonjs-exports/object";',
+      settings: { 'import-x/commonjs-exports': true },
+    }),
+
     // es2022: Arbitrary module namespae identifier names
     testVersion('>= 8.7', () => ({
       code: 'import bar, { foo } from "./export-default-string-and-named"',
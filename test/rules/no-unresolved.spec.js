@@ -1,6 +1,12 @@
 import path from 'path'
 
-import { test, SYNTAX_CASES, testVersion, parsers } from '../utils'
+import {
+  test,
+  SYNTAX_CASES,
+  testFilePath,
+  testVersion,
+  parsers,
+} from '../utils'
 
 import { CASE_SENSITIVE_FS } from '../../src/utils/resolve'
 
@@ -475,6 +481,42 @@ ruleTester.run('no-unresolved ignore list', rule, {
   ],
 })
 
+ruleTester.run('no-unresolved ambient modules', rule, {
+  valid: [
+    test({
+      code: 'import { icons } from "virtual:icons"; import "virtual:routes"',
+      filename: testFilePath('ambient-modules/index.js'),
+      settings: {
+        'import-x/ambient-modules': [
+          'test/fixtures/ambient-modules/types/*.d.ts',
+        ],
+      },
+    }),
+    test({
+      code: 'import url from "./missing.svg"',
+      filename: testFilePath('ambient-modules/index.js'),
+      settings: { 'import-x/ambient-modules': true },
+    }),
+  ],
+
+  invalid: [
+    test({
+      code: 'import "virtual:icons"',
+      filename: testFilePath('ambient-modules/index.js'),
+      errors: ["Unable to resolve path to module 'virtual:icons'."],
+    }),
+    test({
+      code: 'import "./missing.png"; import "augmented"',
+      filename: testFilePath('ambient-modules/index.js'),
+      settings: { 'import-x/ambient-modules': true },
+      errors: [
+        "Unable to resolve path to module './missing.png'.",
+        "Unable to resolve path to module 'augmented'.",
+      ],
+    }),
+  ],
+})
+
 ruleTester.run('no-unresolved unknown resolver', rule, {
   valid: [],
 
@@ -502,6 +544,50 @@ ruleTester.run('no-unresolved unknown resolver', rule, {
   ],
 })
 
+ruleTester.run('no-unresolved explain', rule, {
+  valid: [
+    test({
+      code: 'import "./bar"',
+      options: [{ explain: true }],
+    }),
+  ],
+
+  invalid: [
+    test({
+      code: 'import "./baz"',
+      filename: testFilePath('exception.js'),
+      options: [{ explain: true }],
+      settings: {
+        'import-x/resolver': [
+          './foo-bar-resolver-v1',
+          { node: { extensions: ['.js'] } },
+        ],
+      },
+      errors: [
+        {
+          message: new RegExp(
+            [
+              "^Unable to resolve path to module '\\./baz'\\.",
+              '\\./foo-bar-resolver-v1 \\(v1\\): not found in [\\d.]+ms, threw: foo-bar-resolver-v1 resolveImport test exception',
+              'node \\(v2, \\{"extensions":\\["\\.js"\\]\\}\\): not found in [\\d.]+ms$',
+            ].join('\n'),
+          ),
+        },
+      ],
+    }),
+
+    // no resolver to try
+    test({
+      code: 'import "./baz"',
+      options: [{ explain: true }],
+      settings: { 'import-x/resolver': [] },
+      errors: [
+        "Unable to resolve path to module './baz'.\nno resolver configured",
+      ],
+    }),
+  ],
+})
+
 ruleTester.run('no-unresolved electron', rule, {
   valid: [
     test({
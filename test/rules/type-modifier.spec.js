@@ -0,0 +1,128 @@
+import { test as _test, testFilePath, parsers } from '../utils'
+
+import { RuleTester } from 'eslint'
+
+const ruleTester = new RuleTester()
+const rule = require('rules/type-modifier')
+
+const test = def =>
+  _test({
+    filename: testFilePath('./export-kinds/consumer.ts'),
+    parser: parsers.TS,
+    ...def,
+    settings: {
+      'import-x/extensions': ['.ts'],
+      'import-x/parsers': { [parsers.TS]: ['.ts'] },
+      'import-x/resolver': { node: { extensions: ['.ts'] } },
+      ...def.settings,
+    },
+  })
+
+const typeImport = name => ({
+  message: `'${name}' is a type-only export of './types', import it with \`type\`.`,
+})
+
+ruleTester.run('type-modifier', rule, {
+  valid: [
+    test({ code: "import { format } from './types'" }),
+    test({ code: "import type { Point } from './types'" }),
+    test({ code: "import { type Point, format } from './types'" }),
+    test({ code: "import * as types from './types'" }),
+    test({ code: "import { value, Klass, Color, Space } from './index'" }),
+    // declarations merged with a value
+    test({ code: "import { Merged } from './index'" }),
+    test({ code: "import format, { type Point } from './types'" }),
+    test({ code: "export type { Point } from './types'" }),
+    test({ code: "export { format, type Point } from './types'" }),
+    // unresolved
+    test({ code: "import { Point } from './nope'" }),
+  ],
+
+  invalid: [
+    test({
+      code: "import { Point } from './types'",
+      output: "import { type Point } from './types'",
+      errors: [typeImport('Point')],
+    }),
+    test({
+      code: "import { Point, Options as O, format } from './types'",
+      output: "import { type Point, type Options as O, format } from './types'",
+      errors: [typeImport('Point'), typeImport('Options')],
+    }),
+    test({
+      code: "import { Point, type Options } from './types'",
+      output: "import type { Point, Options } from './types'",
+      options: [{ style: 'prefer-top-level' }],
+      errors: [typeImport('Point')],
+    }),
+    test({
+      code: "import { format, Point, Options } from './types'",
+      output:
+        "import { format } from './types'\nimport type { Point, Options } from './types'",
+      options: [{ style: 'prefer-top-level' }],
+      errors: [typeImport('Point'), typeImport('Options')],
+    }),
+    test({
+      code: "import Props from './index'",
+      output: "import type Props from './index'",
+      errors: [
+        "'default' is a type-only export of './index', import it with `type`.",
+      ],
+    }),
+    // `import type` can not have both default and named bindings
+    test({
+      code: "import Props, { value } from './index'",
+      output: null,
+      errors: [
+        "'default' is a type-only export of './index', import it with `type`.",
+      ],
+    }),
+    test({
+      code: "import format, { Point } from './types'",
+      output: "import format, { type Point } from './types'",
+      errors: [typeImport('Point')],
+    }),
+    test({
+      code: "import format, { Point } from './types'",
+      output:
+        "import format from './types'\nimport type { Point } from './types'",
+      options: [{ style: 'prefer-top-level' }],
+      errors: [typeImport('Point')],
+    }),
+    test({
+      code: "import { Point, Options, format } from './types'",
+      output:
+        "import { format } from './types'\nimport type { Point, Options } from './types'",
+      options: [{ style: 'prefer-top-level' }],
+      errors: [typeImport('Point'), typeImport('Options')],
+    }),
+    // re-exports and star exports of the imported module
+    test({
+      code: "import { TypePoint, Starred, Local, Options } from './index'",
+      output:
+        "import { type TypePoint, type Starred, type Local, type Options } from './index'",
+      errors: [
+        "'TypePoint' is a type-only export of './index', import it with `type`.",
+        "'Starred' is a type-only export of './index', import it with `type`.",
+        "'Local' is a type-only export of './index', import it with `type`.",
+        // imported with `import type` and exported again
+        "'Options' is a type-only export of './index', import it with `type`.",
+      ],
+    }),
+    test({
+      code: "export { Point, format } from './types'",
+      output: "export { type Point, format } from './types'",
+      errors: [
+        "'Point' is a type-only export of './types', re-export it with `type`.",
+      ],
+    }),
+    test({
+      code: "export { Point as P } from './types'",
+      output: "export type { Point as P } from './types'",
+      options: [{ style: 'prefer-top-level' }],
+      errors: [
+        "'Point' is a type-only export of './types', re-export it with `type`.",
+      ],
+    }),
+  ],
+})